@@ -1,24 +1,44 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useStorage } from './services/storageService';
-import { Note, Folder, ViewState, Theme } from './types';
+import { AIProvider, buildAnalysisPatch } from './services/aiProvider';
+import { getAIProvider, AI_PROVIDER_OPTIONS } from './services/aiRegistry';
+import { tokenize } from './services/searchIndex';
+import { mergeText } from './services/textDiff';
+import { toggleTaskLine } from './services/checklist';
+import { findBacklinks, findNoteByTitle, getWikiLinkQuery } from './services/wikiLinks';
+import { createMarkdownArchive } from './services/markdownArchive';
+import { countNotesByFolder, getAncestors, getChildren, getFolderPath, flattenTree, resolveFolderPath } from './services/folderTree';
+import { importFiles, ImportProgress, ImportReport } from './services/noteImport';
+import { createBackup, downloadBackup, downloadFile, backupFileName, serializeBackup, parseBackup, previewBackup, resolveImport, BackupArchive, ConflictPolicy } from './services/backupService';
+import { parseSearchQuery, QueryError, matchesQuery, referencesTrash, referencesArchive, collectTextTerms, filterBySavedQuery } from './services/searchQuery';
+import { Note, Folder, ViewState, Theme, NoteRevision, TagRegistry, TRASH_RETENTION_OPTIONS, SortOrder, SortableView, SORT_OPTIONS } from './types';
 import BottomNav from './components/BottomNav';
 import NoteCard from './components/NoteCard';
-import { ChevronLeftIcon, SearchIcon, TrashIcon, FolderIcon, HashIcon, CheckIcon, RestoreIcon, SelectIcon, ChevronDownIcon, ChevronUpIcon, XIcon, CheckCircleIcon, CircleIcon, MoreVerticalIcon, CopyIcon, EditIcon } from './components/Icons';
+import RevisionHistory from './components/RevisionHistory';
+import MarkdownView from './components/MarkdownView';
+import TasksView from './components/TasksView';
+import ImportBackupDialog from './components/ImportBackupDialog';
+import FolderSettingsSheet from './components/FolderSettingsSheet';
+import FolderGlyph from './components/FolderGlyph';
+import TagSettingsSheet from './components/TagSettingsSheet';
+import { countTags, getTagColor, removeTagFromNote, TAG_PATTERN } from './services/tagRegistry';
+import { getDaysUntilPurge } from './services/trashRetention';
+import { useCommandHistory, UNDO_WINDOW_MS } from './services/commandHistory';
+import { useHashRouter, parseRoute, navigateBack } from './services/router';
+import NotFoundView from './components/NotFoundView';
+import { sortNotes, pinnedFirst, rankForDrop } from './services/noteSort';
+import { selectRange, addTagToNote, addFolderToNote, removeFolderFromNote, countMembership } from './services/bulkActions';
+import { normalizeTag } from './services/noteImport';
+import SelectionActionBar from './components/SelectionActionBar';
+import BulkPickerSheet from './components/BulkPickerSheet';
+import ImportProgressDialog from './components/ImportProgressDialog';
+import SecuritySettings from './components/SecuritySettings';
+import { useVaultConfig, encryptExport, decryptExport, holdAutoLock, ENCRYPTED_EXTENSION } from './services/vault';
+import { ChevronLeftIcon, SearchIcon, TrashIcon, FolderIcon, HashIcon, CheckIcon, RestoreIcon, SelectIcon, ChevronDownIcon, ChevronUpIcon, XIcon, CheckCircleIcon, CircleIcon, MoreVerticalIcon, CopyIcon, EditIcon, SparklesIcon, FolderSearchIcon, HistoryIcon, ListChecksIcon, DownloadIcon, UploadIcon, SettingsIcon, MergeIcon, PinIcon, ArchiveIcon, SortIcon } from './components/Icons';
 
 // --- Helper Functions ---
 
-const stringToColor = (str: string) => {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-        hash = str.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    const hue = Math.abs(hash % 360);
-    const saturation = 65 + (Math.abs(hash) % 25); 
-    const lightness = 75 + (Math.abs(hash >> 2) % 15);
-    return `hsl(${hue}, ${saturation}%, ${lightness}%)`; 
-};
-
 const parseMetadataFromText = (text: string) => {
     const tagMatches = text.matchAll(/#([a-zA-Z0-9_-]+)/g);
     const tags = Array.from(tagMatches).map(m => m[1].toLowerCase());
@@ -27,34 +47,49 @@ const parseMetadataFromText = (text: string) => {
     };
 };
 
+// Three-way merge of a tag or folder list: keeps what either side added and
+// drops what either side removed
+const mergeLists = (base: string[], mine: string[], theirs: string[]) => [...new Set([
+    ...mine.filter(x => theirs.includes(x) || !base.includes(x)),
+    ...theirs.filter(x => !base.includes(x))
+])];
+
 // --- Components ---
 
 // Universal Top Bar
 const TopBar: React.FC<{
     title: string;
+    searchQuery: string;
     onSearchChange: (val: string) => void;
     onToggleSelect: () => void;
     isSelectionMode: boolean;
     searchPlaceholder?: string;
     onBack?: () => void;
     extraAction?: React.ReactNode;
-}> = ({ title, onSearchChange, onToggleSelect, isSelectionMode, searchPlaceholder = "Search...", onBack, extraAction }) => {
-    const [isSearchOpen, setIsSearchOpen] = useState(false);
-    const [query, setQuery] = useState('');
+    searchError?: QueryError | null;
+    breadcrumbs?: { label: string; onClick: () => void }[]; // Levels above the title
+    sort?: { value: SortOrder; onChange: (order: SortOrder) => void };
+}> = ({ title, searchQuery, onSearchChange, onToggleSelect, isSelectionMode, searchPlaceholder = "Search... (try tag:work or \"a phrase\")", onBack, extraAction, searchError, breadcrumbs, sort }) => {
+    // The query lives in the URL, so it can arrive with the search box closed
+    const [isSearchOpen, setIsSearchOpen] = useState(!!searchQuery);
+    const [isSortOpen, setIsSortOpen] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
 
+    useEffect(() => {
+        if (searchQuery) setIsSearchOpen(true);
+    }, [searchQuery]);
+
     useEffect(() => {
         if (isSearchOpen && inputRef.current) {
             inputRef.current.focus();
         }
         if (!isSearchOpen) {
-            setQuery('');
             onSearchChange('');
         }
     }, [isSearchOpen, onSearchChange]);
 
     const handleSearchBlur = () => {
-       if (!query) setIsSearchOpen(false);
+       if (!searchQuery) setIsSearchOpen(false);
     };
 
     return (
@@ -65,11 +100,8 @@ const TopBar: React.FC<{
                         <input 
                             ref={inputRef}
                             type="text" 
-                            value={query}
-                            onChange={(e) => {
-                                setQuery(e.target.value);
-                                onSearchChange(e.target.value);
-                            }}
+                            value={searchQuery}
+                            onChange={(e) => onSearchChange(e.target.value)}
                             onBlur={handleSearchBlur}
                             placeholder={searchPlaceholder}
                             className="w-full bg-transparent text-textMain text-lg outline-none placeholder-textMuted"
@@ -86,10 +118,54 @@ const TopBar: React.FC<{
                                     <ChevronLeftIcon />
                                 </button>
                             )}
-                            <h1 className="text-xl font-bold text-textMain truncate">{title}</h1>
+                            {breadcrumbs && breadcrumbs.length > 0 ? (
+                                <div className="min-w-0 flex flex-col">
+                                    <div className="flex items-center gap-1 text-xs text-textMuted min-w-0 overflow-hidden">
+                                        {breadcrumbs.map((crumb, index) => (
+                                            <React.Fragment key={index}>
+                                                {index > 0 && <span className="shrink-0">/</span>}
+                                                <button onClick={crumb.onClick} className="truncate hover:text-textMain transition-colors">{crumb.label}</button>
+                                            </React.Fragment>
+                                        ))}
+                                    </div>
+                                    <h1 className="text-lg font-bold text-textMain truncate leading-tight">{title}</h1>
+                                </div>
+                            ) : (
+                                <h1 className="text-xl font-bold text-textMain truncate">{title}</h1>
+                            )}
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
                              {extraAction}
+                             {sort && (
+                                 <div className="relative">
+                                     <button
+                                        onClick={() => setIsSortOpen(!isSortOpen)}
+                                        className={`p-2 rounded-full transition-colors ${isSortOpen ? 'bg-surfaceHighlight text-textMain' : 'text-textMuted hover:text-textMain hover:bg-surfaceHighlight'}`}
+                                     >
+                                        <SortIcon size={22} />
+                                     </button>
+                                     {isSortOpen && (
+                                         <>
+                                             <div className="fixed inset-0 z-[60]" onClick={() => setIsSortOpen(false)} />
+                                             <div className="absolute top-12 right-0 bg-surface border border-surfaceHighlight rounded-xl shadow-2xl z-[70] min-w-[200px] animate-fade-in overflow-hidden flex flex-col">
+                                                 {SORT_OPTIONS.map(option => (
+                                                     <button
+                                                        key={option.value}
+                                                        onClick={() => {
+                                                            sort.onChange(option.value);
+                                                            setIsSortOpen(false);
+                                                        }}
+                                                        className="w-full text-left px-4 py-3 text-sm text-textMain hover:bg-surfaceHighlight flex items-center justify-between gap-4 transition-colors"
+                                                     >
+                                                        {option.label}
+                                                        {sort.value === option.value && <CheckIcon size={16} className="text-primary" />}
+                                                     </button>
+                                                 ))}
+                                             </div>
+                                         </>
+                                     )}
+                                 </div>
+                             )}
                              <button 
                                 onClick={onToggleSelect} 
                                 className={`p-2 rounded-full transition-colors ${isSelectionMode ? 'bg-primary/20 text-primary' : 'text-textMuted hover:text-textMain hover:bg-surfaceHighlight'}`}
@@ -106,6 +182,15 @@ const TopBar: React.FC<{
                     </>
                 )}
             </div>
+            {isSearchOpen && searchError && (
+                <div className="max-w-5xl mx-auto pb-2 -mt-1 text-xs animate-fade-in">
+                    {/* The query again in monospace, with a caret under where it went wrong */}
+                    <pre className="font-mono text-textMuted overflow-x-auto no-scrollbar">
+                        {searchQuery}{'\n'}<span className="text-red-400">{' '.repeat(Math.min(searchError.position, searchQuery.length))}^</span>
+                    </pre>
+                    <div className="text-red-400">{searchError.message}</div>
+                </div>
+            )}
         </div>
     );
 };
@@ -116,8 +201,11 @@ const HighlightedEditor: React.FC<{
   onChange: (val: string) => void;
   placeholder?: string;
   readOnly?: boolean;
-}> = ({ content, onChange, placeholder, readOnly }) => {
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  textareaRef?: React.RefObject<HTMLTextAreaElement | null>;
+  onCaretChange?: (caret: number) => void;
+}> = ({ content, onChange, placeholder, readOnly, textareaRef: externalRef, onCaretChange }) => {
+  const internalRef = useRef<HTMLTextAreaElement>(null);
+  const textareaRef = externalRef || internalRef;
   const preRef = useRef<HTMLPreElement>(null);
 
   const handleScroll = () => {
@@ -128,10 +216,11 @@ const HighlightedEditor: React.FC<{
 
   const renderHighlights = (text: string) => {
     if (!text) return <span className="text-textMain"> </span>; 
-    const parts = text.split(/((?:^|\s)(?:@|#)[\w-]+)/g);
+    const parts = text.split(/((?:^|\s)(?:@|#)[\w-]+|\[\[[^\]\n]+\]\])/g);
     return parts.map((part, index) => {
         // We trim to check the token but render the original part to preserve whitespace
         const trimmed = part.trim();
+        if (trimmed.startsWith('[[')) return <span key={index} className="text-primary underline decoration-primary/40">{part}</span>;
         if (trimmed.startsWith('@')) return <span key={index} className="text-blue-500 font-bold">{part}</span>;
         if (trimmed.startsWith('#')) return <span key={index} className="text-primary font-bold">{part}</span>;
         return <span key={index} className="text-textMain">{part}</span>;
@@ -153,7 +242,11 @@ const HighlightedEditor: React.FC<{
         <textarea
             ref={textareaRef}
             value={content}
-            onChange={(e) => onChange(e.target.value)}
+            onChange={(e) => {
+                onChange(e.target.value);
+                onCaretChange?.(e.target.selectionStart);
+            }}
+            onSelect={(e) => onCaretChange?.(e.currentTarget.selectionStart)}
             onScroll={handleScroll}
             placeholder={placeholder}
             readOnly={readOnly}
@@ -173,16 +266,31 @@ const EditorView: React.FC<{
   folders: Folder[];
   folderCounts: Record<string, number>;
   onSave: (note: Note) => void; 
+  onSaveTask: (note: Note) => void; // Checkbox toggles: no history entry or auto-analyze
   onClose: () => void;
   onDelete: (id: string) => void;
-  createFolder: (name: string) => Folder;
-}> = ({ note, folders, folderCounts, onSave, onClose, onDelete, createFolder }) => {
+  createFolder: (name: string, parentId?: string) => Folder;
+  aiProvider: AIProvider;
+  onOpenTag: (tag: string) => void;
+  onOpenFolder: (folderId: string) => void;
+  allNotes: Note[];
+  onOpenWikiLink: (title: string) => void;
+  tagRegistry: TagRegistry;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+}> = ({ note, folders, folderCounts, onSave, onSaveTask, onClose, onDelete, createFolder, aiProvider, onOpenTag, onOpenFolder, allNotes, onOpenWikiLink, tagRegistry, onTogglePin, onToggleArchive }) => {
   const [title, setTitle] = useState(note.title || '');
   const [content, setContent] = useState(note.content);
   const [manualFolderIds, setManualFolderIds] = useState<string[]>(note.folderIds || []);
   const [manualTags, setManualTags] = useState<string[]>(note.tags || []);
   const [derivedTags, setDerivedTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
+  const [summary, setSummary] = useState(note.summary || '');
+  const [suggestedTags, setSuggestedTags] = useState<string[]>(note.suggestedTags || []);
+
+  // AI Analysis State
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   
   // State to toggle between View and Edit mode
   const [isEditing, setIsEditing] = useState(!note.content && !note.title);
@@ -190,13 +298,82 @@ const EditorView: React.FC<{
   // Folder Selector State
   const [isFolderMenuOpen, setIsFolderMenuOpen] = useState(false);
   const [folderInputValue, setFolderInputValue] = useState('');
+  const [expandedFolderIds, setExpandedFolderIds] = useState<string[]>([]);
   const folderWrapperRef = useRef<HTMLDivElement>(null);
 
   // Menu & Modal State
   const [showMenu, setShowMenu] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // [[Wiki link]] autocomplete
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
   const menuRef = useRef<HTMLDivElement>(null);
 
+  // The saved version this draft started from, to tell edits made in another tab apart from ours
+  const baseRef = useRef<Note>(note);
+  const [remoteVersion, setRemoteVersion] = useState<Note | null>(null);
+
+  const loadVersion = (version: Note) => {
+      setTitle(version.title || '');
+      setContent(version.content);
+      setManualFolderIds(version.folderIds || []);
+      setManualTags(version.tags || []);
+      setSummary(version.summary || '');
+      setSuggestedTags(version.suggestedTags || []);
+      baseRef.current = version;
+  };
+
+  const isDirtyAgainst = (base: Note) =>
+      title.trim() !== (base.title || '') || content !== base.content ||
+      manualTags.join() !== (base.tags || []).join() || manualFolderIds.join() !== (base.folderIds || []).join();
+
+  useEffect(() => {
+      const base = baseRef.current;
+      // Our own saves and background patches (same updatedAt) are not remote
+      // edits. Trashing keeps updatedAt, so it is compared on its own.
+      const trashChanged = !!note.isDeleted !== !!base.isDeleted || note.deletedAt !== base.deletedAt;
+      if (note === base || (note.updatedAt <= base.updatedAt && !trashChanged)) return;
+      if (isDirtyAgainst(base) || (note.isDeleted && !base.isDeleted)) setRemoteVersion(note);
+      else loadVersion(note);
+  }, [note]);
+
+  // Auto-lock would unmount the editor and lose an unsaved draft
+  const hasUnsavedDraft = isDirtyAgainst(baseRef.current);
+  useEffect(() => (hasUnsavedDraft ? holdAutoLock() : undefined), [hasUnsavedDraft]);
+
+  const keepMine = () => {
+      // Our next save simply replaces theirs
+      if (remoteVersion) baseRef.current = remoteVersion;
+      setRemoteVersion(null);
+  };
+
+  const takeTheirs = () => {
+      if (remoteVersion) loadVersion(remoteVersion);
+      setRemoteVersion(null);
+  };
+
+  const mergeWithTheirs = () => {
+      if (!remoteVersion) return;
+      const base = baseRef.current;
+      const merged = mergeText(base.content, content, remoteVersion.content);
+      setTitle(title.trim() === (base.title || '') ? remoteVersion.title : title);
+      setContent(merged.text);
+      setManualTags(mergeLists(base.tags || [], manualTags, remoteVersion.tags || []));
+      setManualFolderIds(mergeLists(base.folderIds || [], manualFolderIds, remoteVersion.folderIds || []));
+      baseRef.current = remoteVersion;
+      setRemoteVersion(null);
+      // Overlapping edits are left between conflict markers to resolve by hand
+      if (merged.conflicts > 0) setIsEditing(true);
+  };
+
+  // Every save from this editor goes through here so it becomes the new base
+  const saveDraft = (draft: Note, save = onSave) => {
+      baseRef.current = draft;
+      save(draft);
+  };
+
   useEffect(() => {
     const { derivedTags } = parseMetadataFromText(content);
     setDerivedTags(derivedTags);
@@ -223,19 +400,43 @@ const EditorView: React.FC<{
 
   const getFolder = (id: string) => folders.find(f => f.id === id);
 
+  const backlinks = useMemo(() => findBacklinks(allNotes, { ...note, title }), [allNotes, note, title]);
+
+  const linkQuery = isEditing ? getWikiLinkQuery(content, caret) : null;
+  const linkSuggestions = useMemo(() => {
+      if (!linkQuery) return [];
+      const q = linkQuery.query.trim().toLowerCase();
+      return allNotes
+          .filter(n => !n.isDeleted && n.id !== note.id && n.title && n.title.toLowerCase().includes(q))
+          .sort((a, b) => Number(!a.title.toLowerCase().startsWith(q)) - Number(!b.title.toLowerCase().startsWith(q)) || b.updatedAt - a.updatedAt)
+          .slice(0, 6);
+  }, [allNotes, note.id, linkQuery?.query]);
+
+  const insertWikiLink = (linkTitle: string) => {
+      if (!linkQuery) return;
+      // Replace the partial title, and an already typed "]]" if the caret sits right before it
+      const after = content.slice(caret);
+      const rest = after.startsWith(']]') ? after.slice(2) : after;
+      const before = content.slice(0, linkQuery.start) + linkTitle + ']]';
+      setContent(before + rest);
+      requestAnimationFrame(() => {
+          editorRef.current?.focus();
+          editorRef.current?.setSelectionRange(before.length, before.length);
+          setCaret(before.length);
+      });
+  };
+
   const handleContentChange = (val: string) => {
     // Inline Folder Extraction Logic
-    const folderMatch = val.match(/(^|\s)@([a-zA-Z0-9_-]+)\s$/); 
+    // @parent/child files the note into a nested folder
+    const folderMatch = val.match(/(^|\s)@([a-zA-Z0-9_-]+(?:\/[a-zA-Z0-9_-]+)*)\s$/); 
     
     if (folderMatch && folderMatch.index !== undefined) {
         const prefix = folderMatch[1]; // The whitespace before the @
         const folderName = folderMatch[2];
         const fullMatch = folderMatch[0]; 
 
-        let targetFolder = folders.find(f => f.name.toLowerCase() === folderName.toLowerCase());
-        if (!targetFolder) {
-            targetFolder = createFolder(folderName);
-        }
+        const targetFolder = resolveFolderPath(folders, folderName, createFolder);
 
         if (targetFolder && !manualFolderIds.includes(targetFolder.id)) {
             setManualFolderIds(prev => [...prev, targetFolder!.id]);
@@ -267,18 +468,83 @@ const EditorView: React.FC<{
     setContent(val);
   };
 
-  const handleSave = () => {
-    onSave({
+  const buildNote = (nextContent: string): Note => ({
       ...note,
       title: title.trim(),
-      content,
+      content: nextContent,
       folderIds: manualFolderIds,
       tags: finalTags,
+      summary: summary || undefined,
+      suggestedTags: suggestedTags.filter(t => !finalTags.includes(t)),
       updatedAt: Date.now()
-    });
+  });
+
+  const handleSave = () => {
+    saveDraft(buildNote(content));
     onClose();
   };
 
+  // Checkbox clicks in view mode save straight away without entering edit mode
+  const handleToggleTask = (line: number) => {
+      const nextContent = toggleTaskLine(content, line);
+      if (nextContent === content) return;
+      setContent(nextContent);
+      saveDraft(buildNote(nextContent), onSaveTask);
+  };
+
+  const handleAnalyze = async () => {
+      setShowMenu(false);
+      if (!content.trim()) {
+          setAnalysisError("Write something first, then analyze.");
+          return;
+      }
+      setIsAnalyzing(true);
+      setAnalysisError(null);
+      const result = await aiProvider.analyze(content);
+      setIsAnalyzing(false);
+
+      if (!result) {
+          setAnalysisError(aiProvider.isConfigured()
+              ? `${aiProvider.label} analysis failed. Try again later.`
+              : `${aiProvider.label} is not configured. Pick a provider in Settings.`);
+          return;
+      }
+
+      const patch = buildAnalysisPatch({ ...note, title, tags: finalTags }, result);
+      if (!title.trim() && patch.title) setTitle(patch.title);
+      setSummary(patch.summary || '');
+      setSuggestedTags(patch.suggestedTags || []);
+      // Suggestions only stick once saved, so switch to edit mode
+      setIsEditing(true);
+  };
+
+  const acceptSuggestedTag = (t: string) => {
+      if (!manualTags.includes(t)) setManualTags([...manualTags, t]);
+      setSuggestedTags(suggestedTags.filter(tag => tag !== t));
+  };
+
+  const rejectSuggestedTag = (t: string) => {
+      setSuggestedTags(suggestedTags.filter(tag => tag !== t));
+  };
+
+  // Restoring is a regular save, so the replaced version stays in history too
+  const handleRestoreRevision = (revision: NoteRevision) => {
+      setTitle(revision.title);
+      setContent(revision.content);
+      setManualTags(revision.tags);
+      setManualFolderIds(revision.folderIds);
+      saveDraft({
+          ...note,
+          title: revision.title,
+          content: revision.content,
+          tags: revision.tags,
+          folderIds: revision.folderIds,
+          updatedAt: Date.now()
+      });
+      setShowHistory(false);
+      setIsEditing(false);
+  };
+
   const confirmDelete = () => {
       onDelete(note.id);
       onClose();
@@ -292,6 +558,23 @@ const EditorView: React.FC<{
       });
   }, [folders, folderCounts]);
 
+  const folderPaths = useMemo(() => {
+      return Object.fromEntries(folders.map(f => [f.id, getFolderPath(folders, f.id)]));
+  }, [folders]);
+
+  // Tree while browsing, flat list of matching paths while typing
+  const folderRows = useMemo(() => {
+      const query = folderInputValue.trim().replace(/^@/, '').toLowerCase();
+      if (!query) return flattenTree(folders, id => expandedFolderIds.includes(id));
+      return sortedFolders
+          .filter(f => folderPaths[f.id].toLowerCase().includes(query))
+          .map(folder => ({ folder, depth: 0, hasChildren: false }));
+  }, [folders, sortedFolders, folderPaths, folderInputValue, expandedFolderIds]);
+
+  const toggleExpanded = (id: string) => {
+      setExpandedFolderIds(prev => prev.includes(id) ? prev.filter(fid => fid !== id) : [...prev, id]);
+  };
+
   const toggleFolder = (id: string) => {
       if (!isEditing) return;
       if (manualFolderIds.includes(id)) {
@@ -310,12 +593,9 @@ const EditorView: React.FC<{
           const name = rawName.startsWith('@') ? rawName.slice(1) : rawName;
           if (!name) return;
 
-          let targetFolder = folders.find(f => f.name.toLowerCase() === name.toLowerCase());
-          if (!targetFolder) {
-              targetFolder = createFolder(name);
-          }
+          const targetFolder = resolveFolderPath(folders, name, createFolder);
 
-          if (!manualFolderIds.includes(targetFolder.id)) {
+          if (targetFolder && !manualFolderIds.includes(targetFolder.id)) {
               setManualFolderIds([...manualFolderIds, targetFolder.id]);
           }
           setFolderInputValue('');
@@ -385,6 +665,31 @@ const EditorView: React.FC<{
                         >
                             <CopyIcon size={18}/> <span className="font-medium text-sm">Copy Text</span>
                         </button>
+                        <button 
+                            onClick={handleAnalyze}
+                            disabled={isAnalyzing}
+                            className="w-full text-left px-4 py-3 text-textMain hover:bg-surfaceHighlight flex items-center gap-2 transition-colors border-b border-surfaceHighlight/50 disabled:opacity-50"
+                        >
+                            <SparklesIcon size={18}/> <span className="font-medium text-sm">Analyze</span>
+                        </button>
+                        <button 
+                            onClick={() => { setShowMenu(false); onTogglePin(); }}
+                            className="w-full text-left px-4 py-3 text-textMain hover:bg-surfaceHighlight flex items-center gap-2 transition-colors border-b border-surfaceHighlight/50"
+                        >
+                            <PinIcon size={18}/> <span className="font-medium text-sm">{note.isPinned ? 'Unpin' : 'Pin'}</span>
+                        </button>
+                        <button 
+                            onClick={() => { setShowMenu(false); onToggleArchive(); }}
+                            className="w-full text-left px-4 py-3 text-textMain hover:bg-surfaceHighlight flex items-center gap-2 transition-colors border-b border-surfaceHighlight/50"
+                        >
+                            <ArchiveIcon size={18}/> <span className="font-medium text-sm">{note.isArchived ? 'Unarchive' : 'Archive'}</span>
+                        </button>
+                        <button 
+                            onClick={() => { setShowMenu(false); setShowHistory(true); }}
+                            className="w-full text-left px-4 py-3 text-textMain hover:bg-surfaceHighlight flex items-center gap-2 transition-colors border-b border-surfaceHighlight/50"
+                        >
+                            <HistoryIcon size={18}/> <span className="font-medium text-sm">History</span>
+                        </button>
                         <button 
                             onClick={() => { setShowMenu(false); setShowDeleteConfirm(true); }}
                             className="w-full text-left px-4 py-3 text-red-400 hover:bg-surfaceHighlight flex items-center gap-2 transition-colors"
@@ -399,6 +704,16 @@ const EditorView: React.FC<{
 
       <div className="flex-1 flex flex-col overflow-hidden relative pb-safe">
           <div className="relative z-40 bg-surface/50 border-b border-surfaceHighlight shrink-0">
+                {remoteVersion && (
+                    <div className="px-5 py-2 bg-amber-500/10 border-b border-amber-500/30 flex flex-wrap items-center gap-2 text-xs">
+                        <span className="text-amber-500 font-medium flex-1 min-w-[12rem]">
+                            {remoteVersion.isDeleted ? 'This note was moved to trash in another tab.' : 'This note was changed in another tab.'}
+                        </span>
+                        <button onClick={mergeWithTheirs} className="px-2.5 py-1 rounded-md bg-primary text-white font-medium hover:opacity-90">Merge</button>
+                        <button onClick={keepMine} className="px-2.5 py-1 rounded-md bg-surfaceHighlight text-textMain font-medium hover:opacity-80">Keep mine</button>
+                        <button onClick={takeTheirs} className="px-2.5 py-1 rounded-md bg-surfaceHighlight text-textMain font-medium hover:opacity-80">Take theirs</button>
+                    </div>
+                )}
                 {/* Row 0: Title Input */}
                 <div className="px-5 py-3 border-b border-surfaceHighlight/50">
                     <input
@@ -409,6 +724,18 @@ const EditorView: React.FC<{
                         readOnly={!isEditing}
                         className="w-full bg-transparent text-xl font-bold text-textMain placeholder-textMuted/50 outline-none"
                     />
+                    {summary && (
+                        <p className="text-xs text-textMuted italic mt-1 line-clamp-2">{summary}</p>
+                    )}
+                    {isAnalyzing && (
+                        <p className="text-xs text-primary mt-1 flex items-center gap-1 animate-pulse"><SparklesIcon size={12}/> Analyzing...</p>
+                    )}
+                    {analysisError && (
+                        <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
+                            {analysisError}
+                            <button onClick={() => setAnalysisError(null)} className="p-0.5 hover:text-textMain"><XIcon size={10}/></button>
+                        </p>
+                    )}
                 </div>
 
                 {/* Row 1: Folder Input */}
@@ -420,7 +747,7 @@ const EditorView: React.FC<{
                             if (!f) return null;
                             return (
                                 <span key={fid} onClick={() => toggleFolder(fid)} className={`flex items-center gap-1 bg-surfaceHighlight text-xs px-2 py-1 rounded-full whitespace-nowrap ${isEditing ? 'cursor-pointer' : 'cursor-default'}`}>
-                                    {f.name} {isEditing && <XIcon size={12}/>}
+                                    {folderPaths[fid] || f.name} {isEditing && <XIcon size={12}/>}
                                 </span>
                             );
                         })}
@@ -441,22 +768,30 @@ const EditorView: React.FC<{
                     </div>
                     {isEditing && isFolderMenuOpen && (
                         <div className="absolute top-full left-0 right-0 max-h-40 overflow-y-auto bg-surface border-b border-surfaceHighlight shadow-lg animate-fade-in z-50">
-                            {sortedFolders.filter(f => f.name.toLowerCase().includes(folderInputValue.toLowerCase())).map(f => (
-                                <button 
-                                    key={f.id}
-                                    onClick={() => { toggleFolder(f.id); setFolderInputValue(''); setIsFolderMenuOpen(false); }}
-                                    className="w-full text-left px-4 py-2 text-sm text-textMain hover:bg-surfaceHighlight flex justify-between items-center"
-                                >
-                                    <span>{f.name}</span>
-                                    {manualFolderIds.includes(f.id) && <CheckIcon size={14} className="text-primary"/>}
-                                </button>
+                            {folderRows.map(({ folder: f, depth, hasChildren }) => (
+                                <div key={f.id} className="flex items-center hover:bg-surfaceHighlight" style={{ paddingLeft: `${depth * 16}px` }}>
+                                    {hasChildren ? (
+                                        <button onClick={() => toggleExpanded(f.id)} className="pl-3 py-2 text-textMuted hover:text-textMain">
+                                            <ChevronDownIcon size={14} className={`transition-transform ${expandedFolderIds.includes(f.id) ? '' : '-rotate-90'}`} />
+                                        </button>
+                                    ) : (
+                                        <span className="pl-3 w-[26px] shrink-0" />
+                                    )}
+                                    <button 
+                                        onClick={() => { toggleFolder(f.id); setFolderInputValue(''); setIsFolderMenuOpen(false); }}
+                                        className="flex-1 min-w-0 text-left px-2 py-2 text-sm text-textMain flex justify-between items-center pr-4"
+                                    >
+                                        <span className="truncate">{folderInputValue ? folderPaths[f.id] : f.name}</span>
+                                        {manualFolderIds.includes(f.id) && <CheckIcon size={14} className="text-primary"/>}
+                                    </button>
+                                </div>
                             ))}
-                            {folderInputValue && !sortedFolders.some(f => f.name.toLowerCase() === folderInputValue.toLowerCase()) && (
+                            {folderInputValue.trim() && !folders.some(f => [folderPaths[f.id], f.name].some(p => p.toLowerCase() === folderInputValue.trim().toLowerCase())) && (
                                 <button 
                                     onMouseDown={(e) => {
                                         e.preventDefault(); 
-                                        const newFolder = createFolder(folderInputValue);
-                                        toggleFolder(newFolder.id);
+                                        const newFolder = resolveFolderPath(folders, folderInputValue, createFolder);
+                                        if (newFolder) toggleFolder(newFolder.id);
                                         setFolderInputValue('');
                                         setIsFolderMenuOpen(false);
                                     }}
@@ -475,12 +810,20 @@ const EditorView: React.FC<{
                     <div className="flex-1 flex overflow-x-auto gap-2 no-scrollbar items-center">
                         {finalTags.map(tag => (
                             <span key={tag} className={`text-xs px-2 py-1 rounded-full whitespace-nowrap flex items-center gap-1 ${derivedTags.includes(tag) && !manualTags.includes(tag) ? 'bg-primary/10 text-primary border border-primary/20' : 'bg-surfaceHighlight text-textMain'}`}>
+                                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getTagColor(tagRegistry, tag) }} />
                                 #{tag}
                                 {isEditing && manualTags.includes(tag) && (
                                     <button onClick={() => removeTag(tag)} className="ml-1 hover:text-red-400"><XIcon size={12}/></button>
                                 )}
                             </span>
                         ))}
+                        {suggestedTags.filter(t => !finalTags.includes(t)).map(tag => (
+                            <span key={`suggested-${tag}`} className="text-xs pl-2 pr-1 py-1 rounded-full whitespace-nowrap flex items-center gap-1 border border-dashed border-primary/40 text-primary/80">
+                                <SparklesIcon size={10}/> #{tag}
+                                <button onClick={() => acceptSuggestedTag(tag)} className="p-0.5 hover:text-primary"><CheckIcon size={12}/></button>
+                                <button onClick={() => rejectSuggestedTag(tag)} className="p-0.5 hover:text-red-400"><XIcon size={12}/></button>
+                            </span>
+                        ))}
                         {isEditing && (
                              <input 
                                 type="text"
@@ -496,15 +839,79 @@ const EditorView: React.FC<{
           </div>
           
           <div className="flex-1 relative">
-            <HighlightedEditor 
-                content={content} 
-                onChange={handleContentChange} 
-                placeholder={isEditing ? "Start typing..." : ""}
-                readOnly={!isEditing}
-            />
+            {isEditing ? (
+                <HighlightedEditor 
+                    content={content} 
+                    onChange={handleContentChange} 
+                    placeholder="Start typing..."
+                    textareaRef={editorRef}
+                    onCaretChange={setCaret}
+                />
+            ) : (
+                <div className="absolute inset-0 overflow-y-auto p-5 bg-background">
+                    {content ? (
+                        <MarkdownView
+                            content={content}
+                            onTagClick={onOpenTag}
+                            onToggleTask={handleToggleTask}
+                            onWikiLinkClick={onOpenWikiLink}
+                            isWikiLinkResolved={(linkTitle) => !!findNoteByTitle(allNotes, linkTitle)}
+                            onFolderClick={(name) => {
+                                const folder = folders.find(f => f.name.toLowerCase() === name.toLowerCase());
+                                if (folder) onOpenFolder(folder.id);
+                            }}
+                        />
+                    ) : (
+                        <p className="text-textMuted italic">Empty note</p>
+                    )}
+                    {backlinks.length > 0 && (
+                        <div className="mt-8 pt-4 border-t border-surfaceHighlight">
+                            <h4 className="text-xs font-semibold uppercase tracking-wide text-textMuted mb-2">Linked from</h4>
+                            <div className="flex flex-col gap-1">
+                                {backlinks.map(b => (
+                                    <button key={b.id} onClick={() => onOpenWikiLink(b.title)} className="text-left text-sm text-primary hover:underline truncate">
+                                        {b.title}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+            {linkQuery && (linkSuggestions.length > 0 || linkQuery.query.trim()) && (
+                <div className="absolute bottom-4 left-4 right-4 z-20 bg-surface border border-surfaceHighlight rounded-xl shadow-2xl overflow-hidden animate-fade-in">
+                    {linkSuggestions.map(n => (
+                        <button
+                            key={n.id}
+                            onMouseDown={(e) => { e.preventDefault(); insertWikiLink(n.title); }}
+                            className="w-full text-left px-4 py-2 text-sm text-textMain hover:bg-surfaceHighlight truncate"
+                        >
+                            {n.title}
+                        </button>
+                    ))}
+                    {linkQuery.query.trim() && !findNoteByTitle(allNotes, linkQuery.query) && (
+                        <button
+                            onMouseDown={(e) => { e.preventDefault(); insertWikiLink(linkQuery.query.trim()); }}
+                            className="w-full text-left px-4 py-2 text-sm text-primary hover:bg-surfaceHighlight font-medium truncate"
+                        >
+                            Link to new note "{linkQuery.query.trim()}"
+                        </button>
+                    )}
+                </div>
+            )}
           </div>
       </div>
 
+      {showHistory && (
+        <RevisionHistory
+            noteId={note.id}
+            currentTitle={title}
+            currentContent={content}
+            onRestore={handleRestoreRevision}
+            onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Delete Confirmation Modal Overlay */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
@@ -535,79 +942,420 @@ const EditorView: React.FC<{
 // --- Main App Component ---
 
 const App = () => {
-  const { notes, folders, theme, saveNote, deleteNote, restoreNote, permanentlyDeleteNote, emptyTrash, createFolder, deleteFolder, clearAllData, saveTheme } = useStorage();
+  const { notes, folders, isLoaded, theme, settings, saveNote, updateNote, deleteNote, deleteNotes, updateNotes, updateNoteFields, mergeNotes, restoreNote, restoreNotes, permanentlyDeleteNote, permanentlyDeleteNotes, emptyTrash, createFolder, createSmartFolder, updateFolder, deleteFolder, mergeFolders, tagRegistry, updateTagInfo, renameTag, deleteTag, importData, clearAllData, saveTheme, saveSettings, searchNotes, syncState, syncNow } = useStorage();
   
-  const [view, setView] = useState<ViewState>('home');
-  const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
-  const [activeFolderId, setActiveFolderId] = useState<string | null>(null);
-  const [activeTag, setActiveTag] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  // The first render starts from the link the app was opened with
+  const [initialRoute] = useState(() => parseRoute(window.location.hash));
+  const [view, setView] = useState<ViewState>(initialRoute.view);
+  const [activeNoteId, setActiveNoteId] = useState<string | null>(initialRoute.activeNoteId);
+  const [activeFolderId, setActiveFolderId] = useState<string | null>(initialRoute.activeFolderId);
+  const [activeTag, setActiveTag] = useState<string | null>(initialRoute.activeTag);
+  const [searchQuery, setSearchQuery] = useState(initialRoute.query);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
+  const [backupIncludesTrash, setBackupIncludesTrash] = useState(false);
+  const vaultConfig = useVaultConfig();
+  const [encryptExports, setEncryptExports] = useState(true);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; backup: BackupArchive } | null>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [folderSettingsId, setFolderSettingsId] = useState<string | null>(null);
+  const [tagSettingsName, setTagSettingsName] = useState<string | null>(null);
+  const history = useCommandHistory();
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [bulkPicker, setBulkPicker] = useState<'folders' | 'tags' | null>(null);
+  const [draggedNoteId, setDraggedNoteId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Undo callbacks run later and check against the latest notes
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const [importStatus, setImportStatus] = useState<{ progress: ImportProgress; report: ImportReport | null } | null>(null);
 
   useEffect(() => {
     document.body.className = `theme-${theme}`;
   }, [theme]);
 
+  // A note opens over whatever view was showing, so leaving it keeps that view
+  useHashRouter({ view, activeNoteId, activeFolderId, activeTag, query: searchQuery }, route => {
+      setActiveNoteId(route.activeNoteId);
+      setIsSelectionMode(false);
+      setSelectedNoteIds([]);
+      if (route.activeNoteId) return;
+      setView(route.view);
+      setActiveFolderId(route.activeFolderId);
+      setActiveTag(route.activeTag);
+      setSearchQuery(route.query);
+  });
+
+  const closeNote = () => navigateBack(() => setActiveNoteId(null));
+
   const activeNote = activeNoteId ? notes.find(n => n.id === activeNoteId) : null;
 
-  const folderCounts = useMemo(() => {
-      const counts: Record<string, number> = {};
-      notes.forEach(n => {
-          if (!n.isDeleted) {
-              n.folderIds.forEach(fid => {
-                  counts[fid] = (counts[fid] || 0) + 1;
-              });
-          }
+  // The note whose editor is mounted. A note trashed in another tab while open
+  // keeps its editor, which says so itself; the trash fallback below is only
+  // for routes that land on a note already in the trash.
+  const openEditorNoteIdRef = useRef<string | null>(null);
+  if (openEditorNoteIdRef.current !== activeNoteId) openEditorNoteIdRef.current = null;
+
+  // Archived notes only show in the Archive view, so they don't count elsewhere
+  const unarchivedNotes = useMemo(() => notes.filter(n => !n.isArchived), [notes]);
+  const archivedCount = notes.filter(n => n.isArchived && !n.isDeleted).length;
+
+  // Live notes per folder: `folderCounts` on its own, `folderTotals` rolled up
+  // to include every subfolder
+  const { folderCounts, folderTotals } = useMemo(() => {
+      const { own, total } = countNotesByFolder(unarchivedNotes, folders);
+      // Smart folders are evaluated live against their saved query
+      folders.forEach(f => {
+          if (f.query) own[f.id] = total[f.id] = filterBySavedQuery(notes, f.query, { folders }).length;
       });
-      return counts;
-  }, [notes]);
-
-  const toggleSelection = (id: string) => {
-      if (selectedNoteIds.includes(id)) {
+      return { folderCounts: own, folderTotals: total };
+  }, [notes, unarchivedNotes, folders]);
+
+  const activeFolder = activeFolderId ? folders.find(f => f.id === activeFolderId) : undefined;
+  // Only regular folders can hold notes, smart folders are excluded from pickers
+  const memberFolders = useMemo(() => folders.filter(f => !f.query), [folders]);
+  const activeFolderPath = useMemo(() => activeFolderId ? getAncestors(folders, activeFolderId) : [], [folders, activeFolderId]);
+  const tagCounts = useMemo(() => countTags(unarchivedNotes), [unarchivedNotes]);
+  const allTags = useMemo(() => Array.from(tagCounts.keys()), [tagCounts]);
+
+  const folderSettings = folderSettingsId ? folders.find(f => f.id === folderSettingsId) : undefined;
+  const activeSubfolders = useMemo(() => activeFolder && !activeFolder.query ? getChildren(folders, activeFolder.id) : [], [folders, activeFolder]);
+
+  // Shift-click adds everything between the last clicked note and this one
+  const toggleSelection = (id: string, isRange = false) => {
+      if (isRange) {
+          const range = selectRange(visibleNoteIds, selectionAnchorRef.current, id);
+          setSelectedNoteIds([...new Set([...selectedNoteIds, ...range])]);
+      } else if (selectedNoteIds.includes(id)) {
           setSelectedNoteIds(selectedNoteIds.filter(nid => nid !== id));
       } else {
           setSelectedNoteIds([...selectedNoteIds, id]);
       }
+      selectionAnchorRef.current = id;
+  };
+
+  const exitSelection = () => {
+      setSelectedNoteIds([]);
+      setIsSelectionMode(false);
   };
 
+  const plural = (count: number) => `${count} note${count === 1 ? '' : 's'}`;
+
+  // Trashing is undone from the snackbar instead of being confirmed up front
   const handleBulkDelete = () => {
-      if (window.confirm(`Delete ${selectedNoteIds.length} notes?`)) {
-          selectedNoteIds.forEach(id => deleteNote(id));
-          setSelectedNoteIds([]);
-          setIsSelectionMode(false);
-      }
+      const ids = selectedNoteIds;
+      history.run({ label: `Moved ${plural(ids.length)} to trash`, perform: () => deleteNotes(ids), showSnackbar: true });
+      exitSelection();
+  };
+
+  // Most recently deleted first
+  const trashNotes = useMemo(() => notes
+      .filter(n => n.isDeleted)
+      .sort((a, b) => (b.deletedAt ?? b.updatedAt) - (a.deletedAt ?? a.updatedAt)), [notes]);
+
+  // Selection in the trash acts on deleted notes only
+  const selectedTrashIds = selectedNoteIds.filter(id => trashNotes.some(n => n.id === id));
+
+  const handleBulkRestore = () => {
+      const ids = selectedTrashIds;
+      history.run({ label: `Restored ${plural(ids.length)}`, perform: () => restoreNotes(ids), showSnackbar: true });
+      exitSelection();
+  };
+
+  // Permanent deletes are held for the undo window before the data goes
+  const handleBulkPurge = () => {
+      const ids = selectedTrashIds;
+      history.run({ label: `Deleted ${plural(ids.length)} forever`, perform: () => permanentlyDeleteNotes(ids, UNDO_WINDOW_MS), showSnackbar: true });
+      exitSelection();
+  };
+
+  const handleEmptyTrash = () => {
+      const count = notes.filter(n => n.isDeleted).length;
+      if (count === 0) return;
+      history.run({ label: `Emptied trash (${plural(count)})`, perform: () => emptyTrash(UNDO_WINDOW_MS), showSnackbar: true });
+  };
+
+  const handleClearAll = () => {
+      if (!window.confirm("Clear all data?")) return;
+      history.run({ label: 'Cleared all data', perform: () => clearAllData(UNDO_WINDOW_MS), showSnackbar: true });
+  };
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  const sortView: SortableView | null = view === 'home' || view === 'folders' || view === 'tags' || view === 'archive' ? view : null;
+  const sortOrder: SortOrder = (sortView && settings.sortOrders[sortView]) || 'updated';
+
+  const handleSortChange = (order: SortOrder) => {
+      if (sortView) saveSettings({ sortOrders: { ...settings.sortOrders, [sortView]: order } });
   };
 
+  // Pinned notes always come first, in whatever order the rest is in
   const filteredNotes = useMemo(() => {
-      let filtered = notes.filter(n => !n.isDeleted);
+      const { ast, error } = parsedQuery;
+      // is:trashed widens the search to deleted notes, everything else only sees live ones.
+      // Archived notes live in the Archive view unless the query asks for is:archived.
+      const includeArchive = view === 'archive' || referencesArchive(ast);
+      let filtered = notes.filter(n => (!n.isDeleted || referencesTrash(ast)) && (!n.isArchived || includeArchive));
+      if (view === 'archive') filtered = filtered.filter(n => n.isArchived);
       
-      if (view === 'folders' && activeFolderId) {
+      if (view === 'folders' && activeFolder?.query) {
+          // The saved query decides on its own whether trashed notes belong
+          filtered = filterBySavedQuery(notes, activeFolder.query, { folders });
+      } else if (view === 'folders' && activeFolderId) {
           filtered = filtered.filter(n => n.folderIds.includes(activeFolderId));
       } else if (view === 'tags' && activeTag) {
           filtered = filtered.filter(n => n.tags.includes(activeTag));
       }
 
-      if (searchQuery) {
-          const q = searchQuery.toLowerCase();
-          filtered = filtered.filter(n => 
-              n.content.toLowerCase().includes(q) || 
-              (n.summary && n.summary.toLowerCase().includes(q)) || 
-              (n.title && n.title.toLowerCase().includes(q))
-          );
+      if (error) {
+          // Keep showing plain-text results while the query is being fixed
+          const ranks = new Map<string, number>(searchNotes(searchQuery).map((r, i) => [r.id, i]));
+          return pinnedFirst(filtered
+              .filter(n => ranks.has(n.id))
+              .sort((a, b) => ranks.get(a.id)! - ranks.get(b.id)! || b.updatedAt - a.updatedAt));
+      }
+
+      if (ast) {
+          filtered = filtered.filter(n => matchesQuery(n, ast, { folders }));
+          const textQuery = collectTextTerms(ast).join(' ');
+          if (textQuery.trim()) {
+              // Ranked by relevance; ties fall back to recency
+              const ranks = new Map<string, number>(searchNotes(textQuery).map((r, i) => [r.id, i]));
+              const rankOf = (id: string) => ranks.get(id) ?? Number.MAX_SAFE_INTEGER;
+              return pinnedFirst(filtered.sort((a, b) => rankOf(a.id) - rankOf(b.id) || b.updatedAt - a.updatedAt));
+          }
+      }
+
+      return pinnedFirst(sortNotes(filtered, sortOrder));
+  }, [notes, folders, view, activeFolder, activeFolderId, activeTag, parsedQuery, searchQuery, searchNotes, sortOrder]);
+
+  const searchTerms = useMemo(() => {
+      if (parsedQuery.error) return tokenize(searchQuery);
+      return tokenize(collectTextTerms(parsedQuery.ast).join(' '));
+  }, [parsedQuery, searchQuery]);
+
+  // Views that list notes, where the selection action bar applies
+  const isListView = view === 'trash' || view === 'home' || view === 'archive' || (view === 'folders' && !!activeFolderId) || (view === 'tags' && !!activeTag);
+  const visibleNoteIds = useMemo(() => (view === 'trash' ? trashNotes : filteredNotes).map(n => n.id), [view, trashNotes, filteredNotes]);
+  const selectedNotes = useMemo(() => notes.filter(n => !n.isDeleted && selectedNoteIds.includes(n.id)), [notes, selectedNoteIds]);
+
+  const handleToggleAll = () => {
+      const allSelected = visibleNoteIds.every(id => selectedNoteIds.includes(id));
+      setSelectedNoteIds(allSelected ? [] : visibleNoteIds);
+  };
+
+  const handleBulkTag = (tag: string, add: boolean) => {
+      const ids = selectedNotes.map(n => n.id);
+      history.run(add
+          ? { label: `Tagged ${plural(ids.length)} #${tag}`, perform: () => updateNotes(ids, n => addTagToNote(n, tag)) }
+          : { label: `Removed #${tag} from ${plural(ids.length)}`, perform: () => updateNotes(ids, n => removeTagFromNote(n, tag)), showSnackbar: true });
+  };
+
+  const handleBulkFolder = (folderId: string, add: boolean) => {
+      const ids = selectedNotes.map(n => n.id);
+      const path = getFolderPath(folders, folderId);
+      history.run(add
+          ? { label: `Filed ${plural(ids.length)} in "${path}"`, perform: () => updateNotes(ids, n => addFolderToNote(n, folderId)) }
+          : { label: `Took ${plural(ids.length)} out of "${path}"`, perform: () => updateNotes(ids, n => removeFolderFromNote(n, folderId)), showSnackbar: true });
+  };
+
+  // Acts as a toggle: pins unless every selected note is pinned already
+  const handleBulkPin = () => {
+      const ids = selectedNotes.map(n => n.id);
+      const isPinned = !selectedNotes.every(n => n.isPinned);
+      history.run({ label: `${isPinned ? 'Pinned' : 'Unpinned'} ${plural(ids.length)}`, perform: () => updateNoteFields(ids, { isPinned }) });
+  };
+
+  const handleBulkArchive = () => {
+      const ids = selectedNotes.map(n => n.id);
+      const isArchived = view !== 'archive';
+      history.run({ label: `${isArchived ? 'Archived' : 'Unarchived'} ${plural(ids.length)}`, perform: () => updateNoteFields(ids, { isArchived }), showSnackbar: true });
+      exitSelection();
+  };
+
+  // Manual order only changes within the pinned or the unpinned group
+  const handleDropNote = (targetId: string) => {
+      const dragged = filteredNotes.find(n => n.id === draggedNoteId);
+      const target = filteredNotes.find(n => n.id === targetId);
+      setDraggedNoteId(null);
+      setDropTargetId(null);
+      if (!dragged || !target || dragged.id === target.id || !!dragged.isPinned !== !!target.isPinned) return;
+      const group = filteredNotes.filter(n => !!n.isPinned === !!target.isPinned);
+      const manualRank = rankForDrop(group, dragged, target);
+      history.run({ label: 'Moved note', perform: () => updateNoteFields([dragged.id], { manualRank }) });
+  };
+
+  const handleBulkExport = () => {
+      const date = new Date().toISOString().slice(0, 10);
+      downloadExport(createMarkdownArchive(selectedNotes, folders), `sanchita-notes-selection-${date}.zip`, 'application/zip');
+  };
+
+  // The originals go to the trash, so the merge is undone from the snackbar
+  const handleBulkMerge = () => {
+      const ids = selectedNotes.map(n => n.id);
+      history.run({
+          label: `Merged ${plural(ids.length)}`,
+          perform: () => mergeNotes(ids)?.undo ?? (() => false),
+          showSnackbar: true
+      });
+      exitSelection();
+  };
+
+  // With a passphrase set, exports are sealed with it unless turned off
+  const downloadExport = async (data: string | Uint8Array, fileName: string, type: string) => {
+      if (!vaultConfig || !encryptExports) {
+          downloadFile(data, fileName, type);
+          return;
+      }
+      try {
+          downloadFile(await encryptExport(data, fileName), `${fileName}${ENCRYPTED_EXTENSION}`, 'application/json');
+      } catch (e) {
+          console.error("Failed to encrypt export", e);
+          window.alert('Could not encrypt the export');
+      }
+  };
+
+  // Files encrypted under an older passphrase, or on another device, ask for it
+  const openEncryptedFile = async (file: File): Promise<File | null> => {
+      try {
+          const text = await file.text();
+          const opened = await decryptExport(text) ?? await decryptExport(text, prompt(`Passphrase for ${file.name}:`));
+          if (opened) return new File([opened.data], opened.name);
+          window.alert(`Could not decrypt ${file.name}: wrong passphrase`);
+      } catch (e) {
+          console.error(`Failed to decrypt ${file.name}`, e);
+          window.alert(`${file.name} is not an encrypted Sanchita export`);
+      }
+      return null;
+  };
+
+  const handleExportBackup = () => {
+      const backup = createBackup(notes, folders, theme, backupIncludesTrash);
+      if (vaultConfig && encryptExports) downloadExport(serializeBackup(backup), backupFileName(backup), 'application/json');
+      else downloadBackup(backup);
+  };
+
+  const handleBackupFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const chosen = e.target.files?.[0];
+      e.target.value = ''; // Allow choosing the same file again
+      if (!chosen) return;
+      const file = chosen.name.endsWith(ENCRYPTED_EXTENSION) ? await openEncryptedFile(chosen) : chosen;
+      if (!file) return;
+      let text: string;
+      try {
+          text = await file.text();
+      } catch (e) {
+          console.error(`Failed to read ${file.name}`, e);
+          window.alert(`Could not read ${file.name}`);
+          return;
+      }
+      const { backup, error } = parseBackup(text);
+      if (!backup) {
+          window.alert(`Could not import backup: ${error}`);
+          return;
+      }
+      setPendingImport({ fileName: file.name, backup });
+  };
+
+  const handleConfirmImport = (policy: ConflictPolicy) => {
+      if (!pendingImport) return;
+      const result = resolveImport(pendingImport.backup, notes, folders, policy);
+      importData(result.notes, result.folders);
+      saveTheme(pendingImport.backup.theme);
+      setPendingImport(null);
+      window.alert([
+          `Imported ${result.added + result.overwritten + result.duplicated} notes.`,
+          result.overwritten ? `${result.overwritten} overwritten.` : '',
+          result.duplicated ? `${result.duplicated} kept as copies.` : '',
+          result.skipped ? `${result.skipped} skipped.` : ''
+      ].filter(Boolean).join(' '));
+  };
+
+  const handleExportMarkdown = () => {
+      const date = new Date().toISOString().slice(0, 10);
+      downloadExport(createMarkdownArchive(notes, folders), `sanchita-notes-${date}.zip`, 'application/zip');
+  };
+
+  // Markdown, Evernote ENEX and Google Keep Takeout files, loose or zipped
+  const handleImportFilesChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const chosen = Array.from<File>(e.target.files || []);
+      e.target.value = '';
+      const files: File[] = [];
+      for (const file of chosen) {
+          const opened = file.name.endsWith(ENCRYPTED_EXTENSION) ? await openEncryptedFile(file) : file;
+          if (opened) files.push(opened);
       }
+      if (files.length === 0) return;
 
-      return filtered.sort((a, b) => b.updatedAt - a.updatedAt);
-  }, [notes, view, activeFolderId, activeTag, searchQuery]);
+      setImportStatus({ progress: { done: 0, total: files.length, current: '' }, report: null });
+      const { notes: parsed, report } = await importFiles(files, progress => setImportStatus({ progress, report: null }));
 
-  const trashNotes = useMemo(() => notes.filter(n => n.isDeleted).sort((a, b) => b.updatedAt - a.updatedAt), [notes]);
+      // Reuse folders by path, create the missing ones once
+      const knownFolders = [...memberFolders];
+      const resolveFolder = (path: string) => resolveFolderPath(knownFolders, path, (name, parentId) => {
+          const folder = createFolder(name, parentId);
+          knownFolders.push(folder);
+          return folder;
+      })?.id;
+
+      const now = Date.now();
+      const imported: Note[] = parsed.map(file => ({
+          id: crypto.randomUUID(),
+          title: file.title,
+          content: file.content,
+          folderIds: [...new Set(file.folderNames.map(resolveFolder).filter((id): id is string => !!id))],
+          tags: [...new Set([...file.tags, ...parseMetadataFromText(file.content).derivedTags])],
+          summary: file.summary,
+          createdAt: file.createdAt ?? file.updatedAt ?? now,
+          updatedAt: file.updatedAt ?? now,
+          isDeleted: file.isDeleted || false,
+          // Trashed on import, so the retention countdown starts now
+          ...(file.isDeleted ? { deletedAt: now } : {})
+      }));
+      importData(imported, []);
+      setImportStatus(prev => prev && { ...prev, report });
+  };
+
+  // Follows a [[wiki link]], offering to create the note when no title matches
+  const handleOpenWikiLink = (title: string) => {
+      const target = findNoteByTitle(notes, title);
+      if (target) {
+          setActiveNoteId(target.id);
+          return;
+      }
+      if (!window.confirm(`"${title}" doesn't exist yet. Create it?`)) return;
+      const newNote: Note = {
+          id: crypto.randomUUID(),
+          title: title.trim(),
+          content: '',
+          folderIds: [],
+          tags: [],
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          isDeleted: false
+      };
+      saveNote(newNote);
+      setActiveNoteId(newNote.id);
+  };
+
+  // Asks for a saved search until it parses, returns null if cancelled
+  const promptForQuery = (initial = '') => {
+      let query = prompt("Saved search (e.g. tag:work -tag:done after:2026-01-01):", initial);
+      while (query !== null) {
+          const { ast, error } = parseSearchQuery(query);
+          if (ast && !error) return query.trim();
+          query = prompt(`${error ? error.message : 'The search is empty'}. Try again:`, query);
+      }
+      return null;
+  };
 
   const createNewNote = () => {
       const newNote: Note = {
           id: crypto.randomUUID(),
           title: '',
           content: '',
-          folderIds: view === 'folders' && activeFolderId ? [activeFolderId] : [],
+          folderIds: view === 'folders' && activeFolderId && !activeFolder?.query ? [activeFolderId] : [],
           tags: view === 'tags' && activeTag ? [activeTag] : [],
           createdAt: Date.now(),
           updatedAt: Date.now(),
@@ -617,22 +1365,162 @@ const App = () => {
       setActiveNoteId(newNote.id);
   };
 
+  const aiProvider = useMemo(() => getAIProvider(settings), [settings]);
+
+  // Saves go into the history without a snackbar. Undo puts the previous
+  // version back unless the note changed again since.
+  const handleEditorSave = (note: Note) => {
+      const previous = notes.find(n => n.id === note.id);
+      history.run({
+          label: previous ? `Edited "${note.title || 'Untitled'}"` : 'Created note',
+          perform: () => {
+              saveNote(note);
+              return () => {
+                  const current = notesRef.current.find(n => n.id === note.id);
+                  if (!current || current.updatedAt !== note.updatedAt) return false;
+                  if (previous) saveNote({ ...previous, updatedAt: Date.now() });
+                  else deleteNote(note.id);
+              };
+          }
+      });
+      if (!settings.autoAnalyze || !note.content.trim()) return;
+
+      // Fire and forget: the editor closes immediately and results land on the
+      // saved note, checked again when they arrive so a title typed meanwhile stays
+      aiProvider.analyze(note.content).then(result => {
+          const stored = notesRef.current.find(n => n.id === note.id);
+          if (result && stored) updateNote(note.id, buildAnalysisPatch(stored, result));
+      });
+  };
+
   // --- Render Views ---
 
+  // Links to notes that were deleted, or never existed here, land on this
+  // instead of the editor once the notes have loaded
+  const isTrashedOnArrival = activeNote?.isDeleted && openEditorNoteIdRef.current !== activeNote.id;
+  if (activeNoteId && isLoaded && (!activeNote || isTrashedOnArrival)) {
+      return (
+          <NotFoundView
+              title={activeNote ? 'This note is in the trash' : 'Note not found'}
+              message={activeNote
+                  ? `"${activeNote.title || 'Untitled'}" was deleted. Restore it to open it again.`
+                  : "The link points to a note that doesn't exist on this device. It may have been deleted for good or not synced yet."}
+              actions={[
+                  ...(activeNote ? [{ label: 'Restore note', onClick: () => history.run({ label: 'Restored note', perform: () => restoreNote(activeNote.id), showSnackbar: true }), isPrimary: true }] : []),
+                  { label: 'Go to Home', onClick: () => { setActiveNoteId(null); setView('home'); setActiveFolderId(null); setActiveTag(null); } }
+              ]}
+              onBack={closeNote}
+          />
+      );
+  }
+
+  if (view === 'folders' && activeFolderId && isLoaded && !activeFolder) {
+      return (
+          <NotFoundView
+              title="Folder not found"
+              message="The link points to a folder that doesn't exist on this device. It may have been deleted, merged or emptied."
+              actions={[{ label: 'All folders', onClick: () => setActiveFolderId(null), isPrimary: true }]}
+              onBack={() => navigateBack(() => setActiveFolderId(null))}
+          />
+      );
+  }
+
   if (activeNote) {
+      openEditorNoteIdRef.current = activeNote.id;
       return (
           <EditorView 
+            key={activeNote.id}
             note={activeNote}
-            folders={folders}
+            folders={memberFolders}
             folderCounts={folderCounts}
-            onSave={saveNote}
-            onClose={() => setActiveNoteId(null)}
-            onDelete={(id) => { deleteNote(id); setActiveNoteId(null); }}
+            onSave={handleEditorSave}
+            onSaveTask={saveNote}
+            onClose={closeNote}
+            onDelete={(id) => {
+                history.run({ label: 'Moved note to trash', perform: () => deleteNote(id), showSnackbar: true });
+                closeNote();
+            }}
+            onTogglePin={() => {
+                const isPinned = !activeNote.isPinned;
+                history.run({ label: isPinned ? 'Pinned note' : 'Unpinned note', perform: () => updateNoteFields([activeNote.id], { isPinned }) });
+            }}
+            onToggleArchive={() => {
+                const isArchived = !activeNote.isArchived;
+                history.run({ label: isArchived ? 'Archived note' : 'Unarchived note', perform: () => updateNoteFields([activeNote.id], { isArchived }), showSnackbar: true });
+                if (isArchived) closeNote();
+            }}
             createFolder={createFolder}
+            aiProvider={aiProvider}
+            onOpenTag={(tag) => {
+                setActiveNoteId(null);
+                setView('tags');
+                setActiveFolderId(null);
+                setActiveTag(tag);
+            }}
+            onOpenFolder={(folderId) => {
+                setActiveNoteId(null);
+                setView('folders');
+                setActiveTag(null);
+                setActiveFolderId(folderId);
+            }}
+            allNotes={notes}
+            onOpenWikiLink={handleOpenWikiLink}
+            tagRegistry={tagRegistry}
           />
       );
   }
 
+  const pinnedNotes = filteredNotes.filter(n => n.isPinned);
+  const otherNotes = filteredNotes.filter(n => !n.isPinned);
+  // Dragging reorders notes in manual order, but not in search results
+  const canReorder = sortOrder === 'manual' && !searchQuery && !isSelectionMode;
+
+  const renderNoteCard = (note: Note) => (
+      <div
+          key={note.id}
+          draggable={canReorder}
+          onDragStart={() => setDraggedNoteId(note.id)}
+          onDragEnd={() => { setDraggedNoteId(null); setDropTargetId(null); }}
+          onDragOver={e => {
+              if (!draggedNoteId) return;
+              e.preventDefault();
+              if (dropTargetId !== note.id) setDropTargetId(note.id);
+          }}
+          onDrop={e => { e.preventDefault(); handleDropNote(note.id); }}
+          className={`transition-opacity ${draggedNoteId === note.id ? 'opacity-40' : ''} ${dropTargetId === note.id && draggedNoteId !== note.id ? 'rounded-xl ring-2 ring-primary/50' : ''}`}
+      >
+          <NoteCard
+              note={note}
+              onClick={(n, e) => {
+                  if (isSelectionMode) toggleSelection(n.id, e.shiftKey);
+                  else setActiveNoteId(n.id);
+              }}
+              isSelectionMode={isSelectionMode}
+              isSelected={selectedNoteIds.includes(note.id)}
+              highlightTerms={searchTerms}
+          />
+      </div>
+  );
+
+  // Badges count subfolders' notes too
+  const renderFolderTile = (folder: Folder) => (
+      <button 
+        key={folder.id} 
+        onClick={() => setActiveFolderId(folder.id)}
+        className="flex flex-col items-center justify-start gap-2 p-2 rounded-xl hover:bg-surfaceHighlight/50 transition-colors group text-center"
+      >
+          <div className="relative">
+            <FolderGlyph folder={folder} size={56} className="opacity-90 group-hover:opacity-100 transition-opacity" />
+            <span className="absolute -top-1 -right-1 bg-surfaceHighlight border border-background text-[10px] text-textMuted px-1.5 rounded-full shadow-sm">
+                {folderTotals[folder.id] || 0}
+            </span>
+          </div>
+          <span className="text-xs font-medium text-textMain line-clamp-2 w-full break-words leading-tight">
+              {folder.name}
+          </span>
+      </button>
+  );
+
   const renderContent = () => {
       if (view === 'settings') {
           return (
@@ -655,6 +1543,82 @@ const App = () => {
                   </div>
 
                   <div className="bg-surface border border-surfaceHighlight rounded-xl overflow-hidden">
+                      <div className="p-4 border-b border-surfaceHighlight">
+                          <h3 className="font-semibold text-textMain">AI Assistant</h3>
+                      </div>
+                      <button onClick={() => saveSettings({ autoAnalyze: !settings.autoAnalyze })} className="w-full flex items-center justify-between p-4 hover:bg-surfaceHighlight transition-colors">
+                          <div className="text-left">
+                              <div className="text-textMain font-medium">Auto-analyze on save</div>
+                              <div className="text-textMuted text-xs">Fill empty titles, write a summary and suggest tags</div>
+                          </div>
+                          <div className={`w-11 h-6 rounded-full p-0.5 transition-colors ${settings.autoAnalyze ? 'bg-primary' : 'bg-surfaceHighlight'}`}>
+                              <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${settings.autoAnalyze ? 'translate-x-5' : ''}`} />
+                          </div>
+                      </button>
+                      <div className="p-4 border-t border-surfaceHighlight space-y-3">
+                          <div className="text-textMain font-medium">Provider</div>
+                          <div className="flex flex-wrap gap-2">
+                              {AI_PROVIDER_OPTIONS.map(option => (
+                                  <button 
+                                    key={option.id}
+                                    onClick={() => saveSettings({ aiProvider: option.id })}
+                                    className={`px-4 py-2 rounded-lg text-sm font-medium border transition-all ${settings.aiProvider === option.id ? 'bg-primary text-white border-primary' : 'bg-background text-textMuted border-surfaceHighlight hover:border-textMuted'}`}
+                                  >
+                                    {option.label}
+                                  </button>
+                              ))}
+                          </div>
+                          <div className="text-textMuted text-xs">
+                              {AI_PROVIDER_OPTIONS.find(o => o.id === settings.aiProvider)?.description}
+                          </div>
+                          {settings.aiProvider === 'openai' && (
+                              <div className="space-y-2">
+                                  {([
+                                      ['openAIBaseUrl', 'Base URL', 'http://localhost:11434/v1', 'url'],
+                                      ['openAIModel', 'Model', 'llama3.2', 'text'],
+                                      ['openAIApiKey', 'API key (optional)', '', 'password']
+                                  ] as const).map(([key, label, placeholder, type]) => (
+                                      <label key={key} className="block">
+                                          <span className="text-xs text-textMuted">{label}</span>
+                                          <input
+                                              type={type}
+                                              value={settings[key]}
+                                              placeholder={placeholder}
+                                              onChange={(e) => saveSettings({ [key]: e.target.value })}
+                                              className="w-full mt-1 px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+                                          />
+                                      </label>
+                                  ))}
+                              </div>
+                          )}
+                      </div>
+                  </div>
+
+                  <div className="bg-surface border border-surfaceHighlight rounded-xl overflow-hidden">
+                      <button onClick={() => setView('tasks')} className="w-full flex items-center justify-between p-4 hover:bg-surfaceHighlight transition-colors border-b border-surfaceHighlight">
+                          <div className="flex items-center gap-3">
+                              <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center text-primary">
+                                  <ListChecksIcon size={20} />
+                              </div>
+                              <div className="text-left">
+                                  <div className="text-textMain font-medium">Tasks</div>
+                                  <div className="text-textMuted text-xs">Open checklist items across notes</div>
+                              </div>
+                          </div>
+                          <ChevronLeftIcon className="rotate-180 text-textMuted" />
+                      </button>
+                      <button onClick={() => setView('archive')} className="w-full flex items-center justify-between p-4 hover:bg-surfaceHighlight transition-colors border-b border-surfaceHighlight">
+                          <div className="flex items-center gap-3">
+                              <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center text-primary">
+                                  <ArchiveIcon size={20} />
+                              </div>
+                              <div className="text-left">
+                                  <div className="text-textMain font-medium">Archive</div>
+                                  <div className="text-textMuted text-xs">{archivedCount} archived notes</div>
+                              </div>
+                          </div>
+                          <ChevronLeftIcon className="rotate-180 text-textMuted" />
+                      </button>
                       <button onClick={() => setView('trash')} className="w-full flex items-center justify-between p-4 hover:bg-surfaceHighlight transition-colors">
                           <div className="flex items-center gap-3">
                               <div className="w-10 h-10 rounded-full bg-red-500/10 flex items-center justify-center text-red-500">
@@ -670,7 +1634,118 @@ const App = () => {
                   </div>
 
                   <div className="bg-surface border border-surfaceHighlight rounded-xl overflow-hidden">
-                       <button onClick={() => { if(window.confirm("Clear all data?")) clearAllData(); }} className="w-full text-left p-4 text-red-500 hover:bg-surfaceHighlight transition-colors font-medium">
+                      <div className="p-4 border-b border-surfaceHighlight">
+                          <h3 className="font-semibold text-textMain">Sync</h3>
+                      </div>
+                      <button onClick={() => saveSettings({ syncEnabled: !settings.syncEnabled })} className="w-full flex items-center justify-between p-4 hover:bg-surfaceHighlight transition-colors">
+                          <div className="text-left">
+                              <div className="text-textMain font-medium">Sync with a server</div>
+                              <div className="text-textMuted text-xs">Self-hosted, run it with "npm run sync-server"</div>
+                          </div>
+                          <div className={`w-11 h-6 rounded-full p-0.5 transition-colors ${settings.syncEnabled ? 'bg-primary' : 'bg-surfaceHighlight'}`}>
+                              <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${settings.syncEnabled ? 'translate-x-5' : ''}`} />
+                          </div>
+                      </button>
+                      {settings.syncEnabled && (
+                          <div className="p-4 border-t border-surfaceHighlight space-y-2">
+                              {([
+                                  ['syncServerUrl', 'Server URL', 'http://localhost:8787', 'url'],
+                                  ['syncToken', 'Account token (same on every device)', '', 'password']
+                              ] as const).map(([key, label, placeholder, type]) => (
+                                  <label key={key} className="block">
+                                      <span className="text-xs text-textMuted">{label}</span>
+                                      <input
+                                          type={type}
+                                          value={settings[key]}
+                                          placeholder={placeholder}
+                                          onChange={(e) => saveSettings({ [key]: e.target.value })}
+                                          className="w-full mt-1 px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+                                      />
+                                  </label>
+                              ))}
+                              <div className="flex items-center justify-between gap-2 pt-1">
+                                  <div className="text-xs text-textMuted min-w-0">
+                                      <span className={syncState.status === 'error' ? 'text-red-400' : syncState.status === 'offline' ? 'text-amber-500' : ''}>
+                                          {syncState.status === 'syncing' ? 'Syncing...' :
+                                           syncState.status === 'offline' ? 'Offline, changes are queued' :
+                                           syncState.status === 'error' ? `Sync failed: ${syncState.error}` :
+                                           syncState.status === 'disabled' ? 'Enter a server URL and token' :
+                                           syncState.lastSyncedAt ? `Synced ${new Date(syncState.lastSyncedAt).toLocaleTimeString()}` : 'Not synced yet'}
+                                      </span>
+                                      {syncState.pending > 0 && <span> · {syncState.pending} pending</span>}
+                                  </div>
+                                  <button
+                                      onClick={() => syncNow()}
+                                      disabled={syncState.status === 'syncing' || syncState.status === 'disabled'}
+                                      className="px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/20 text-primary hover:bg-primary/30 transition-colors shrink-0 disabled:opacity-40"
+                                  >
+                                      Sync now
+                                  </button>
+                              </div>
+                          </div>
+                      )}
+                  </div>
+
+                  <SecuritySettings />
+
+                  <div className="bg-surface border border-surfaceHighlight rounded-xl overflow-hidden">
+                      <div className="p-4 border-b border-surfaceHighlight">
+                          <h3 className="font-semibold text-textMain">Backup</h3>
+                      </div>
+                      {vaultConfig && (
+                          <button onClick={() => setEncryptExports(!encryptExports)} className="w-full flex items-center justify-between p-4 hover:bg-surfaceHighlight transition-colors border-b border-surfaceHighlight">
+                              <div className="text-left">
+                                  <div className="text-textMain font-medium">Encrypt exports</div>
+                                  <div className="text-textMuted text-xs">Exported files open only with your passphrase</div>
+                              </div>
+                              <div className={`w-11 h-6 rounded-full p-0.5 transition-colors ${encryptExports ? 'bg-primary' : 'bg-surfaceHighlight'}`}>
+                                  <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${encryptExports ? 'translate-x-5' : ''}`} />
+                              </div>
+                          </button>
+                      )}
+                      <button onClick={() => setBackupIncludesTrash(!backupIncludesTrash)} className="w-full flex items-center justify-between p-4 hover:bg-surfaceHighlight transition-colors border-b border-surfaceHighlight">
+                          <div className="text-left">
+                              <div className="text-textMain font-medium">Include trash</div>
+                              <div className="text-textMuted text-xs">Also export the {trashNotes.length} deleted notes</div>
+                          </div>
+                          <div className={`w-11 h-6 rounded-full p-0.5 transition-colors ${backupIncludesTrash ? 'bg-primary' : 'bg-surfaceHighlight'}`}>
+                              <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${backupIncludesTrash ? 'translate-x-5' : ''}`} />
+                          </div>
+                      </button>
+                      <button onClick={handleExportBackup} className="w-full flex items-center gap-3 p-4 hover:bg-surfaceHighlight transition-colors border-b border-surfaceHighlight">
+                          <DownloadIcon size={20} className="text-primary" />
+                          <div className="text-left">
+                              <div className="text-textMain font-medium">Export backup</div>
+                              <div className="text-textMuted text-xs">Notes, folders and theme as a JSON file</div>
+                          </div>
+                      </button>
+                      <button onClick={() => backupInputRef.current?.click()} className="w-full flex items-center gap-3 p-4 hover:bg-surfaceHighlight transition-colors">
+                          <UploadIcon size={20} className="text-primary" />
+                          <div className="text-left">
+                              <div className="text-textMain font-medium">Import backup</div>
+                              <div className="text-textMuted text-xs">Merge a backup file into this device</div>
+                          </div>
+                      </button>
+                      <button onClick={handleExportMarkdown} className="w-full flex items-center gap-3 p-4 hover:bg-surfaceHighlight transition-colors border-t border-surfaceHighlight">
+                          <DownloadIcon size={20} className="text-primary" />
+                          <div className="text-left">
+                              <div className="text-textMain font-medium">Export Markdown</div>
+                              <div className="text-textMuted text-xs">A zip with one .md file per note, grouped by folder</div>
+                          </div>
+                      </button>
+                      <button onClick={() => importInputRef.current?.click()} className="w-full flex items-center gap-3 p-4 hover:bg-surfaceHighlight transition-colors border-t border-surfaceHighlight">
+                          <UploadIcon size={20} className="text-primary" />
+                          <div className="text-left">
+                              <div className="text-textMain font-medium">Import notes</div>
+                              <div className="text-textMuted text-xs">Markdown, Evernote (.enex) or Google Keep Takeout, loose or zipped</div>
+                          </div>
+                      </button>
+                      <input ref={importInputRef} type="file" multiple accept=".zip,.md,.markdown,.txt,.enex,.json,.enc,application/zip,text/markdown" onChange={handleImportFilesChosen} className="hidden" />
+                      <input ref={backupInputRef} type="file" accept="application/json,.json,.enc" onChange={handleBackupFileChosen} className="hidden" />
+                  </div>
+
+                  <div className="bg-surface border border-surfaceHighlight rounded-xl overflow-hidden">
+                       <button onClick={handleClearAll} className="w-full text-left p-4 text-red-500 hover:bg-surfaceHighlight transition-colors font-medium">
                            Reset App Data
                        </button>
                   </div>
@@ -678,59 +1753,86 @@ const App = () => {
           );
       }
 
+      if (view === 'tasks') {
+          return (
+              <TasksView
+                  notes={notes}
+                  folders={folders}
+                  onOpenNote={setActiveNoteId}
+                  onToggleTask={(note, line) => saveNote({ ...note, content: toggleTaskLine(note.content, line), updatedAt: Date.now() })}
+              />
+          );
+      }
+
       if (view === 'trash') {
           return (
              <div className="pb-24 pt-20 px-4">
                  <div className="flex justify-between items-center mb-4">
                      <h2 className="text-textMuted text-sm font-medium">Deleted Notes ({trashNotes.length})</h2>
                      {trashNotes.length > 0 && (
-                         <button onClick={emptyTrash} className="text-red-500 text-sm hover:underline">Empty Trash</button>
+                         <button onClick={handleEmptyTrash} className="text-red-500 text-sm hover:underline">Empty Trash</button>
                      )}
                  </div>
+                 <div className="flex items-center justify-between gap-4 mb-4 text-sm">
+                     <span className="text-textMuted">Delete notes in the trash after</span>
+                     <select
+                         value={settings.trashRetentionDays}
+                         onChange={e => saveSettings({ trashRetentionDays: Number(e.target.value) })}
+                         className="px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+                     >
+                         {TRASH_RETENTION_OPTIONS.map(days => (
+                             <option key={days} value={days}>{days === 0 ? 'Never' : `${days} days`}</option>
+                         ))}
+                     </select>
+                 </div>
                  {trashNotes.length === 0 ? (
                      <div className="text-center text-textMuted mt-20">Trash is empty</div>
                  ) : (
                      <div className="space-y-3">
-                         {trashNotes.map(note => (
-                             <div key={note.id} className="bg-surface border border-surfaceHighlight p-4 rounded-xl flex justify-between items-start">
-                                 <p className="text-textMain line-clamp-2 text-sm flex-1 mr-4 opacity-70">{note.content || "Empty"}</p>
-                                 <div className="flex flex-col gap-2">
-                                     <button onClick={() => restoreNote(note.id)} className="p-2 text-primary hover:bg-primary/10 rounded-full"><RestoreIcon size={18}/></button>
-                                     <button onClick={() => permanentlyDeleteNote(note.id)} className="p-2 text-red-500 hover:bg-red-500/10 rounded-full"><XIcon size={18}/></button>
+                         {trashNotes.map(note => {
+                             const daysLeft = getDaysUntilPurge(note, settings.trashRetentionDays);
+                             const isSelected = selectedNoteIds.includes(note.id);
+                             return (
+                                 <div
+                                     key={note.id}
+                                     onClick={isSelectionMode ? (e) => toggleSelection(note.id, e.shiftKey) : undefined}
+                                     className={`bg-surface border p-4 rounded-xl flex justify-between items-start ${isSelectionMode ? 'cursor-pointer' : ''} ${isSelected ? 'border-primary bg-primary/5' : 'border-surfaceHighlight'}`}
+                                 >
+                                     <div className="flex-1 min-w-0 mr-4">
+                                         {note.title && <p className="text-textMain font-medium text-sm truncate opacity-80">{note.title}</p>}
+                                         <p className="text-textMain line-clamp-2 text-sm opacity-70">{note.content || "Empty"}</p>
+                                         <p className="text-textMuted text-xs mt-2">
+                                             {note.deletedAt && `Deleted ${new Date(note.deletedAt).toLocaleDateString()}`}
+                                             {note.deletedAt && daysLeft !== null && ' · '}
+                                             {daysLeft !== null && `deletes in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                                         </p>
+                                     </div>
+                                     {isSelectionMode ? (
+                                         isSelected ? <CheckCircleIcon size={22} className="text-primary shrink-0" /> : <CircleIcon size={22} className="text-textMuted shrink-0" />
+                                     ) : (
+                                         <div className="flex flex-col gap-2">
+                                             <button onClick={() => history.run({ label: 'Restored note', perform: () => restoreNote(note.id), showSnackbar: true })} className="p-2 text-primary hover:bg-primary/10 rounded-full"><RestoreIcon size={18}/></button>
+                                             <button onClick={() => history.run({ label: 'Deleted note forever', perform: () => permanentlyDeleteNote(note.id, UNDO_WINDOW_MS), showSnackbar: true })} className="p-2 text-red-500 hover:bg-red-500/10 rounded-full"><XIcon size={18}/></button>
+                                         </div>
+                                     )}
                                  </div>
-                             </div>
-                         ))}
+                             );
+                         })}
                      </div>
                  )}
              </div>
           );
       }
 
-      // Default List View (Home/Folders/Tags)
+      // Default List View (Home/Folders/Tags/Archive)
       if (view === 'folders' && !activeFolderId) {
           return (
               <div className="grid grid-cols-[repeat(auto-fill,minmax(90px,1fr))] gap-4 p-4 pt-20 pb-24 max-w-5xl mx-auto">
-                  {folders.map(folder => (
-                      <button 
-                        key={folder.id} 
-                        onClick={() => setActiveFolderId(folder.id)}
-                        className="flex flex-col items-center justify-start gap-2 p-2 rounded-xl hover:bg-surfaceHighlight/50 transition-colors group text-center"
-                      >
-                          <div className="relative">
-                            <FolderIcon size={56} fill="currentColor" className="text-amber-400 opacity-90 group-hover:opacity-100 transition-opacity" />
-                            <span className="absolute -top-1 -right-1 bg-surfaceHighlight border border-background text-[10px] text-textMuted px-1.5 rounded-full shadow-sm">
-                                {folderCounts[folder.id] || 0}
-                            </span>
-                          </div>
-                          <span className="text-xs font-medium text-textMain line-clamp-2 w-full break-words leading-tight">
-                              {folder.name}
-                          </span>
-                      </button>
-                  ))}
+                  {getChildren(folders, null).map(renderFolderTile)}
                   <button 
                     onClick={() => {
                         const name = prompt("New Folder Name:");
-                        if (name) createFolder(name);
+                        if (name) createFolder(name, undefined, true);
                     }}
                     className="flex flex-col items-center justify-start gap-2 p-2 rounded-xl hover:bg-surfaceHighlight/50 transition-colors text-textMuted hover:text-primary group"
                   >
@@ -739,27 +1841,45 @@ const App = () => {
                       </div>
                       <span className="text-xs font-medium">New Folder</span>
                   </button>
+                  <button 
+                    onClick={() => {
+                        const name = prompt("Smart Folder Name:");
+                        if (!name) return;
+                        const query = promptForQuery();
+                        if (query) createSmartFolder(name, query);
+                    }}
+                    className="flex flex-col items-center justify-start gap-2 p-2 rounded-xl hover:bg-surfaceHighlight/50 transition-colors text-textMuted hover:text-primary group"
+                  >
+                      <div className="w-14 h-14 flex items-center justify-center border-2 border-dashed border-surfaceHighlight rounded-xl group-hover:border-primary/50 transition-colors">
+                        <FolderSearchIcon size={24} />
+                      </div>
+                      <span className="text-xs font-medium">New Smart Folder</span>
+                  </button>
               </div>
           );
       }
 
       if (view === 'tags' && !activeTag) {
-           const allTags = Array.from(new Set(notes.filter(n => !n.isDeleted).flatMap(n => n.tags)));
            return (
                <div className="p-4 pt-20 pb-24 max-w-5xl mx-auto">
                    <div className="flex flex-wrap gap-2">
                        {allTags.map(tag => (
-                           <button 
-                                key={tag} 
-                                onClick={() => setActiveTag(tag)}
-                                className="px-4 py-3 bg-surface border border-surfaceHighlight rounded-xl text-textMain hover:border-primary hover:text-primary transition-all flex items-center gap-2"
-                           >
-                               <HashIcon size={16} className="text-textMuted" />
-                               {tag}
-                               <span className="bg-surfaceHighlight px-1.5 py-0.5 rounded-md text-[10px] text-textMuted">
-                                   {notes.filter(n => !n.isDeleted && n.tags.includes(tag)).length}
-                               </span>
-                           </button>
+                           <div key={tag} className="bg-surface border border-surfaceHighlight rounded-xl hover:border-primary transition-all flex items-center group">
+                               <button 
+                                    onClick={() => setActiveTag(tag)}
+                                    title={tagRegistry[tag]?.description}
+                                    className="pl-4 pr-2 py-3 text-textMain group-hover:text-primary transition-colors flex items-center gap-2"
+                               >
+                                   <span style={{ color: getTagColor(tagRegistry, tag) }}><HashIcon size={16} /></span>
+                                   {tag}
+                                   <span className="bg-surfaceHighlight px-1.5 py-0.5 rounded-md text-[10px] text-textMuted">
+                                       {tagCounts.get(tag)}
+                                   </span>
+                               </button>
+                               <button onClick={() => setTagSettingsName(tag)} className="pr-3 pl-1 py-3 text-textMuted hover:text-textMain">
+                                   <SettingsIcon size={14} />
+                               </button>
+                           </div>
                        ))}
                    </div>
                </div>
@@ -770,20 +1890,57 @@ const App = () => {
           <div className="p-4 pt-20 pb-24 space-y-3 min-h-screen max-w-5xl mx-auto">
               {activeFolderId && (
                   <div className="flex items-center gap-2 text-sm text-textMuted mb-2">
-                      <FolderIcon size={14} /> 
-                      <span>{folders.find(f => f.id === activeFolderId)?.name}</span>
+                      {activeFolder ? <FolderGlyph folder={activeFolder} size={14} /> : <FolderIcon size={14} />}
+                      <span>{activeFolder?.name}</span>
+                      {activeFolder?.query && (
+                          <>
+                              <code className="text-xs bg-surfaceHighlight px-2 py-0.5 rounded-md truncate">{activeFolder.query}</code>
+                              <button
+                                  onClick={() => {
+                                      const query = promptForQuery(activeFolder.query);
+                                      if (query) updateFolder(activeFolder.id, { query });
+                                  }}
+                                  className="p-1 hover:text-textMain"
+                              >
+                                  <EditIcon size={12}/>
+                              </button>
+                          </>
+                      )}
+                      {activeFolder && !activeFolder.query && (
+                          <button
+                              onClick={() => {
+                                  const name = prompt("New Subfolder Name:");
+                                  if (name) createFolder(name, activeFolder.id, true);
+                              }}
+                              className="ml-auto px-2 py-1 rounded-lg text-xs hover:text-textMain hover:bg-surfaceHighlight transition-colors"
+                          >
+                              + Subfolder
+                          </button>
+                      )}
+                      {activeFolder && (
+                          <button onClick={() => setFolderSettingsId(activeFolder.id)} className={`p-1 hover:text-textMain ${activeFolder.query ? 'ml-auto' : ''}`}>
+                              <SettingsIcon size={12}/>
+                          </button>
+                      )}
                       <button onClick={() => setActiveFolderId(null)} className="p-1 hover:text-textMain"><XIcon size={12}/></button>
                   </div>
               )}
+              {activeSubfolders.length > 0 && (
+                  <div className="grid grid-cols-[repeat(auto-fill,minmax(90px,1fr))] gap-4 pb-2">
+                      {activeSubfolders.map(renderFolderTile)}
+                  </div>
+              )}
               {activeTag && (
                   <div className="flex items-center gap-2 text-sm text-textMuted mb-2">
-                      <HashIcon size={14} /> 
+                      <span style={{ color: getTagColor(tagRegistry, activeTag) }}><HashIcon size={14} /></span>
                       <span>#{activeTag}</span>
+                      {tagRegistry[activeTag]?.description && <span className="truncate">· {tagRegistry[activeTag].description}</span>}
+                      <button onClick={() => setTagSettingsName(activeTag)} className="ml-auto p-1 hover:text-textMain"><SettingsIcon size={12}/></button>
                       <button onClick={() => setActiveTag(null)} className="p-1 hover:text-textMain"><XIcon size={12}/></button>
                   </div>
               )}
               
-              {filteredNotes.length === 0 ? (
+              {filteredNotes.length === 0 && activeSubfolders.length === 0 ? (
                   <div className="text-center mt-20">
                       <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-surfaceHighlight text-textMuted mb-4">
                           <SearchIcon size={24} />
@@ -791,18 +1948,12 @@ const App = () => {
                       <p className="text-textMuted">No notes found</p>
                   </div>
               ) : (
-                filteredNotes.map(note => (
-                    <NoteCard 
-                        key={note.id} 
-                        note={note} 
-                        onClick={(n) => {
-                            if (isSelectionMode) toggleSelection(n.id);
-                            else setActiveNoteId(n.id);
-                        }}
-                        isSelectionMode={isSelectionMode}
-                        isSelected={selectedNoteIds.includes(note.id)}
-                    />
-                ))
+                <>
+                    {pinnedNotes.length > 0 && <h2 className="text-xs font-semibold uppercase tracking-wide text-textMuted px-1">Pinned</h2>}
+                    {pinnedNotes.map(renderNoteCard)}
+                    {pinnedNotes.length > 0 && otherNotes.length > 0 && <h2 className="text-xs font-semibold uppercase tracking-wide text-textMuted px-1 pt-3">Notes</h2>}
+                    {otherNotes.map(renderNoteCard)}
+                </>
               )}
           </div>
       );
@@ -810,9 +1961,11 @@ const App = () => {
 
   const getTitle = () => {
       if (view === 'settings') return 'Settings';
-      if (view === 'folders') return activeFolderId ? folders.find(f => f.id === activeFolderId)?.name || 'Folder' : 'Folders';
+      if (view === 'folders') return activeFolderId ? activeFolder?.name || 'Folder' : 'Folders';
       if (view === 'tags') return activeTag ? `#${activeTag}` : 'Tags';
       if (view === 'trash') return 'Trash';
+      if (view === 'tasks') return 'Tasks';
+      if (view === 'archive') return 'Archive';
       return 'Sanchita Notes';
   };
 
@@ -824,32 +1977,174 @@ const App = () => {
     <div className="min-h-screen bg-background text-textMain font-sans selection:bg-primary/30">
         <TopBar 
             title={getTitle()}
+            searchQuery={searchQuery}
             onSearchChange={setSearchQuery}
-            onToggleSelect={() => setIsSelectionMode(!isSelectionMode)}
+            breadcrumbs={view === 'folders' && activeFolderId ? [
+                { label: 'Folders', onClick: () => setActiveFolderId(null) },
+                ...activeFolderPath.slice(0, -1).map(a => ({ label: a.name, onClick: () => setActiveFolderId(a.id) }))
+            ] : undefined}
+            searchError={parsedQuery.error}
+            sort={sortView && isListView ? { value: sortOrder, onChange: handleSortChange } : undefined}
+            onToggleSelect={() => isSelectionMode ? exitSelection() : setIsSelectionMode(true)}
             isSelectionMode={isSelectionMode}
             onBack={
-                (view === 'folders' && activeFolderId) ? () => setActiveFolderId(null) :
+                (view === 'folders' && activeFolderId) ? () => setActiveFolderId(activeFolderPath[activeFolderPath.length - 2]?.id ?? null) :
                 (view === 'tags' && activeTag) ? () => setActiveTag(null) :
-                (view === 'trash') ? () => setView('settings') :
+                (view === 'trash' || view === 'tasks' || view === 'archive') ? () => setView('settings') :
                 undefined
             }
-            extraAction={isSelectionMode && selectedNoteIds.length > 0 && (
-                <button onClick={handleBulkDelete} className="p-2 text-red-400 hover:bg-red-500/10 rounded-full transition-colors mr-2">
-                    <TrashIcon size={20} />
-                </button>
-            )}
         />
 
         {renderContent()}
 
-        {!activeNoteId && view !== 'editor' && (
+        {importStatus && (
+            <ImportProgressDialog
+                progress={importStatus.progress}
+                report={importStatus.report}
+                onClose={() => setImportStatus(null)}
+            />
+        )}
+
+        {folderSettings && (
+            <FolderSettingsSheet
+                folder={folderSettings}
+                folders={memberFolders}
+                noteCount={folderCounts[folderSettings.id] || 0}
+                onSave={(patch) => {
+                    const id = folderSettings.id;
+                    history.run({ label: `Updated folder "${folderSettings.name}"`, perform: () => updateFolder(id, patch) });
+                }}
+                onMerge={(targetId) => {
+                    const id = folderSettings.id;
+                    const target = folders.find(f => f.id === targetId);
+                    history.run({ label: `Merged "${folderSettings.name}" into "${target?.name}"`, perform: () => mergeFolders(id, targetId), showSnackbar: true });
+                    if (activeFolderId === folderSettings.id) setActiveFolderId(targetId);
+                }}
+                onDelete={() => {
+                    const id = folderSettings.id;
+                    history.run({ label: `Deleted folder "${folderSettings.name}"`, perform: () => deleteFolder(id), showSnackbar: true });
+                    if (activeFolderId === folderSettings.id) setActiveFolderId(activeFolderPath[activeFolderPath.length - 2]?.id ?? null);
+                }}
+                onClose={() => setFolderSettingsId(null)}
+            />
+        )}
+
+        {tagSettingsName && (
+            <TagSettingsSheet
+                tag={tagSettingsName}
+                info={tagRegistry[tagSettingsName] || {}}
+                noteCount={tagCounts.get(tagSettingsName) || 0}
+                allTags={allTags}
+                defaultColor={getTagColor({}, tagSettingsName)}
+                onSave={(name, info) => {
+                    const from = tagSettingsName;
+                    const isMerge = name !== from && allTags.includes(name);
+                    if (name !== from) {
+                        history.run({ label: isMerge ? `Merged #${from} into #${name}` : `Renamed #${from} to #${name}`, perform: () => renameTag(from, name), showSnackbar: true });
+                        if (activeTag === from) setActiveTag(name);
+                    }
+                    // A merged tag keeps the extras it already had
+                    if (!isMerge) history.run({ label: `Updated #${name}`, perform: () => updateTagInfo(name, info) });
+                }}
+                onDelete={() => {
+                    const tag = tagSettingsName;
+                    history.run({ label: `Removed #${tag} from all notes`, perform: () => deleteTag(tag), showSnackbar: true });
+                    if (activeTag === tag) setActiveTag(null);
+                }}
+                onClose={() => setTagSettingsName(null)}
+            />
+        )}
+
+        {history.toast && (
+            <div className="fixed bottom-20 left-4 right-4 z-[70] flex justify-center pointer-events-none pb-safe">
+                <div className="pointer-events-auto flex items-center gap-4 bg-surfaceHighlight text-textMain text-sm px-4 py-3 rounded-xl shadow-2xl animate-slide-up">
+                    <span>{history.toast.message}</span>
+                    {history.toast.action && (
+                        <button
+                            onClick={history.toast.action === 'undo' ? history.undo : history.redo}
+                            className="text-primary font-semibold hover:opacity-80"
+                        >
+                            {history.toast.action === 'undo' ? 'Undo' : 'Redo'}
+                        </button>
+                    )}
+                    <button onClick={history.dismissToast} className="text-textMuted hover:text-textMain"><XIcon size={16}/></button>
+                </div>
+            </div>
+        )}
+
+        {pendingImport && (
+            <ImportBackupDialog
+                fileName={pendingImport.fileName}
+                exportedAt={pendingImport.backup.exportedAt}
+                preview={previewBackup(pendingImport.backup, notes)}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setPendingImport(null)}
+            />
+        )}
+
+        {bulkPicker === 'tags' && (
+            <BulkPickerSheet
+                title={`Tags of ${plural(selectedNotes.length)}`}
+                options={allTags.map(tag => ({ id: tag, label: tag, icon: <span style={{ color: getTagColor(tagRegistry, tag) }}><HashIcon size={14} /></span> }))}
+                membership={countMembership(selectedNotes, 'tags')}
+                total={selectedNotes.length}
+                createPlaceholder="Find or create a tag"
+                onAdd={tag => handleBulkTag(tag, true)}
+                onRemove={tag => handleBulkTag(tag, false)}
+                onCreate={name => {
+                    const tag = normalizeTag(name);
+                    if (TAG_PATTERN.test(tag)) handleBulkTag(tag, true);
+                }}
+                onClose={() => setBulkPicker(null)}
+            />
+        )}
+
+        {bulkPicker === 'folders' && (
+            <BulkPickerSheet
+                title={`Folders of ${plural(selectedNotes.length)}`}
+                options={memberFolders
+                    .map(f => ({ id: f.id, label: getFolderPath(folders, f.id), icon: <FolderGlyph folder={f} size={14} /> }))
+                    .sort((a, b) => a.label.localeCompare(b.label))}
+                membership={countMembership(selectedNotes, 'folderIds')}
+                total={selectedNotes.length}
+                createPlaceholder="Find or create a folder (a/b for nested)"
+                onAdd={id => handleBulkFolder(id, true)}
+                onRemove={id => handleBulkFolder(id, false)}
+                onCreate={path => {
+                    const folder = resolveFolderPath(folders, path, createFolder);
+                    if (folder) handleBulkFolder(folder.id, true);
+                }}
+                onClose={() => setBulkPicker(null)}
+            />
+        )}
+
+        {!activeNoteId && view !== 'editor' && isSelectionMode && isListView ? (
+            <SelectionActionBar
+                count={view === 'trash' ? selectedTrashIds.length : selectedNotes.length}
+                total={visibleNoteIds.length}
+                onToggleAll={handleToggleAll}
+                actions={view === 'trash' ? [
+                    { label: 'Restore', icon: <RestoreIcon size={20} />, onClick: handleBulkRestore },
+                    { label: 'Delete', icon: <XIcon size={20} />, onClick: handleBulkPurge, isDestructive: true }
+                ] : [
+                    { label: 'Folders', icon: <FolderIcon size={20} />, onClick: () => setBulkPicker('folders') },
+                    { label: 'Tags', icon: <HashIcon size={20} />, onClick: () => setBulkPicker('tags') },
+                    { label: 'Export', icon: <DownloadIcon size={20} />, onClick: handleBulkExport },
+                    { label: selectedNotes.length > 0 && selectedNotes.every(n => n.isPinned) ? 'Unpin' : 'Pin', icon: <PinIcon size={20} />, onClick: handleBulkPin },
+                    { label: view === 'archive' ? 'Unarchive' : 'Archive', icon: <ArchiveIcon size={20} />, onClick: handleBulkArchive },
+                    { label: 'Merge', icon: <MergeIcon size={20} />, onClick: handleBulkMerge, disabled: selectedNotes.length < 2 },
+                    { label: 'Trash', icon: <TrashIcon size={20} />, onClick: handleBulkDelete, isDestructive: true }
+                ]}
+            />
+        ) : !activeNoteId && view !== 'editor' && (
             <BottomNav 
-                activeTab={view === 'trash' ? 'settings' : view} 
+                activeTab={view === 'trash' || view === 'tasks' || view === 'archive' ? 'settings' : view} 
                 onTabChange={(t) => {
                     setView(t);
                     setActiveFolderId(null);
                     setActiveTag(null);
                     setIsSelectionMode(false);
+                    setSelectedNoteIds([]);
                 }} 
                 onAddClick={createNewNote}
             />
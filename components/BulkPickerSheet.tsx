@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { CheckIcon, XIcon } from './Icons';
+
+export interface BulkPickerOption {
+  id: string;
+  label: string;
+  icon?: React.ReactNode;
+}
+
+interface BulkPickerSheetProps {
+  title: string;
+  options: BulkPickerOption[];
+  membership: Map<string, number>; // Selected notes that already have each option
+  total: number; // Selected notes
+  createPlaceholder: string;
+  onAdd: (id: string) => void;
+  onRemove: (id: string) => void;
+  onCreate: (name: string) => void;
+  onClose: () => void;
+}
+
+// Adds to or removes from every selected note at once. An option some of the
+// notes have shows as partial, and tapping it adds it to the rest.
+const BulkPickerSheet: React.FC<BulkPickerSheetProps> = ({ title, options, membership, total, createPlaceholder, onAdd, onRemove, onCreate, onClose }) => {
+  const [filter, setFilter] = useState('');
+
+  const visible = options.filter(o => o.label.toLowerCase().includes(filter.trim().toLowerCase()));
+  const canCreate = filter.trim() !== '' && !options.some(o => o.label.toLowerCase() === filter.trim().toLowerCase());
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    onCreate(filter.trim());
+    setFilter('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="bg-surface border border-surfaceHighlight rounded-t-2xl sm:rounded-2xl w-full max-w-md max-h-[80vh] flex flex-col shadow-2xl animate-slide-up pb-safe">
+        <div className="flex items-center justify-between px-4 h-14 border-b border-surfaceHighlight shrink-0">
+          <h3 className="font-bold text-textMain">{title}</h3>
+          <button onClick={onClose} className="p-2 -mr-2 text-textMuted hover:text-textMain"><XIcon size={20}/></button>
+        </div>
+
+        <div className="p-4 border-b border-surfaceHighlight shrink-0">
+          <input
+            type="text"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+            placeholder={createPlaceholder}
+            className="w-full px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+          />
+          {canCreate && (
+            <button onClick={handleCreate} className="mt-2 text-sm text-primary hover:underline">
+              + Create "{filter.trim()}"
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-y-auto py-2">
+          {visible.length === 0 && <div className="px-4 py-6 text-center text-sm text-textMuted">Nothing here yet</div>}
+          {visible.map(option => {
+            const count = membership.get(option.id) || 0;
+            const state = count === 0 ? 'none' : count >= total ? 'all' : 'some';
+            return (
+              <button
+                key={option.id}
+                onClick={() => state === 'all' ? onRemove(option.id) : onAdd(option.id)}
+                className="w-full flex items-center gap-3 px-4 py-3 text-left text-sm text-textMain hover:bg-surfaceHighlight transition-colors"
+              >
+                <span className={`w-5 h-5 shrink-0 rounded-md border flex items-center justify-center ${state === 'none' ? 'border-textMuted' : 'border-primary bg-primary text-white'}`}>
+                  {state === 'all' && <CheckIcon size={14} />}
+                  {state === 'some' && <span className="w-2.5 h-0.5 bg-white rounded-full" />}
+                </span>
+                {option.icon}
+                <span className="flex-1 truncate">{option.label}</span>
+                {state === 'some' && <span className="text-xs text-textMuted">{count} of {total}</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkPickerSheet;
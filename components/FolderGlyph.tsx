@@ -0,0 +1,36 @@
+import React from 'react';
+import { Folder } from '../types';
+import { FolderIcon, FolderSearchIcon, BookIcon, BriefcaseIcon, StarIcon, HeartIcon, LightbulbIcon, CodeIcon, HashIcon } from './Icons';
+
+// Icons a folder can pick, keyed by the name stored in `Folder.icon`
+export const FOLDER_ICONS: Record<string, typeof FolderIcon> = {
+  'folder': FolderIcon,
+  'book': BookIcon,
+  'briefcase': BriefcaseIcon,
+  'star': StarIcon,
+  'heart': HeartIcon,
+  'lightbulb': LightbulbIcon,
+  'code': CodeIcon,
+  'hash': HashIcon,
+  'folder-search': FolderSearchIcon
+};
+
+interface FolderGlyphProps {
+  folder: Pick<Folder, 'icon' | 'color' | 'query'>;
+  size: number;
+  className?: string;
+}
+
+// Plain folders default to a filled amber folder, smart folders to the search folder
+const FolderGlyph: React.FC<FolderGlyphProps> = ({ folder, size, className = '' }) => {
+  const name = folder.icon && FOLDER_ICONS[folder.icon] ? folder.icon : folder.query ? 'folder-search' : 'folder';
+  const Icon = FOLDER_ICONS[name];
+  const colorClass = folder.color ? '' : folder.query ? 'text-primary' : 'text-amber-400';
+  return (
+    <span className={`inline-flex ${colorClass} ${className}`} style={folder.color ? { color: folder.color } : undefined}>
+      <Icon size={size} fill={name === 'folder' ? 'currentColor' : undefined} strokeWidth={size > 24 ? 1.5 : 2} />
+    </span>
+  );
+};
+
+export default FolderGlyph;
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { Folder, COLOR_OPTIONS } from '../types';
+import { getChildren, getFolderPath, PATH_SEPARATOR } from '../services/folderTree';
+import FolderGlyph, { FOLDER_ICONS } from './FolderGlyph';
+import { TrashIcon, XIcon } from './Icons';
+
+interface FolderSettingsSheetProps {
+  folder: Folder;
+  folders: Folder[];
+  noteCount: number;
+  onSave: (patch: Partial<Folder>) => void;
+  onMerge: (targetId: string) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const FolderSettingsSheet: React.FC<FolderSettingsSheetProps> = ({ folder, folders, noteCount, onSave, onMerge, onDelete, onClose }) => {
+  const [name, setName] = useState(folder.name);
+  const [color, setColor] = useState(folder.color);
+  const [icon, setIcon] = useState(folder.icon || (folder.query ? 'folder-search' : 'folder'));
+  const [keepWhenEmpty, setKeepWhenEmpty] = useState(!!folder.keepWhenEmpty);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const mergeTargets = useMemo(() => folders
+    .filter(f => f.id !== folder.id && !f.query)
+    .map(f => ({ id: f.id, path: getFolderPath(folders, f.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path)), [folders, folder.id]);
+
+  const nameError = (() => {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Enter a name';
+    if (trimmed.includes(PATH_SEPARATOR)) return `Names can't contain "${PATH_SEPARATOR}"`;
+    const siblings = getChildren(folders, folder.parentId && folders.some(f => f.id === folder.parentId) ? folder.parentId : null);
+    if (siblings.some(f => f.id !== folder.id && f.name.toLowerCase() === trimmed.toLowerCase())) return 'A folder here already has that name';
+    return '';
+  })();
+
+  const handleSave = () => {
+    if (nameError && !folder.isSystem) return;
+    onSave({
+      name: folder.isSystem ? folder.name : name.trim(),
+      color,
+      icon,
+      ...(folder.query ? {} : { keepWhenEmpty })
+    });
+    onClose();
+  };
+
+  const handleMerge = () => {
+    const target = mergeTargets.find(t => t.id === mergeTargetId);
+    if (!target) return;
+    const message = `Move ${noteCount} note${noteCount === 1 ? '' : 's'} and any subfolders from "${folder.name}" into "${target.path}", then remove "${folder.name}"?`;
+    if (!window.confirm(message)) return;
+    onMerge(target.id);
+    onClose();
+  };
+
+  const handleDelete = () => {
+    const message = folder.query
+      ? `Delete smart folder "${folder.name}"? Notes are not affected.`
+      : `Delete folder "${folder.name}"? Its notes stay in your library and subfolders move up a level.`;
+    if (!window.confirm(message)) return;
+    onDelete();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="bg-surface border border-surfaceHighlight rounded-t-2xl sm:rounded-2xl w-full max-w-md max-h-[90vh] flex flex-col shadow-2xl animate-slide-up pb-safe">
+        <div className="flex items-center justify-between px-4 h-14 border-b border-surfaceHighlight shrink-0">
+          <h3 className="font-bold text-textMain flex items-center gap-2">
+            <FolderGlyph folder={{ icon, color, query: folder.query }} size={18} /> Folder settings
+          </h3>
+          <button onClick={onClose} className="p-2 -mr-2 text-textMuted hover:text-textMain"><XIcon size={20}/></button>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto">
+          <label className="block">
+            <span className="text-xs text-textMuted">Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+              readOnly={folder.isSystem}
+              className="w-full mt-1 px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary read-only:opacity-60"
+            />
+            {folder.isSystem ? (
+              <span className="text-xs text-textMuted">System folders can't be renamed, merged or deleted</span>
+            ) : nameError && (
+              <span className="text-xs text-red-400">{nameError}</span>
+            )}
+          </label>
+
+          <div>
+            <div className="text-xs text-textMuted mb-2">Color</div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setColor(undefined)}
+                className={`w-7 h-7 rounded-full border-2 flex items-center justify-center text-textMuted ${!color ? 'border-primary' : 'border-surfaceHighlight'}`}
+                title="Default"
+              >
+                <XIcon size={12}/>
+              </button>
+              {COLOR_OPTIONS.map(c => (
+                <button
+                  key={c}
+                  onClick={() => setColor(c)}
+                  className={`w-7 h-7 rounded-full border-2 ${color === c ? 'border-textMain' : 'border-transparent'}`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-textMuted mb-2">Icon</div>
+            <div className="flex flex-wrap gap-2">
+              {Object.keys(FOLDER_ICONS).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setIcon(key)}
+                  className={`w-10 h-10 rounded-lg border flex items-center justify-center transition-colors ${icon === key ? 'border-primary bg-primary/10' : 'border-surfaceHighlight hover:border-textMuted'}`}
+                >
+                  <FolderGlyph folder={{ icon: key, color, query: folder.query }} size={20} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!folder.query && (
+            <button onClick={() => setKeepWhenEmpty(!keepWhenEmpty)} className="w-full flex items-center justify-between gap-4">
+              <div className="text-left">
+                <div className="text-sm text-textMain font-medium">Keep when empty</div>
+                <div className="text-textMuted text-xs">Otherwise the folder is removed once it has no notes</div>
+              </div>
+              <div className={`w-11 h-6 shrink-0 rounded-full p-0.5 transition-colors ${keepWhenEmpty || folder.isSystem ? 'bg-primary' : 'bg-surfaceHighlight'}`}>
+                <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${keepWhenEmpty || folder.isSystem ? 'translate-x-5' : ''}`} />
+              </div>
+            </button>
+          )}
+
+          {!folder.query && !folder.isSystem && mergeTargets.length > 0 && (
+            <div>
+              <div className="text-xs text-textMuted mb-2">Merge into another folder</div>
+              <div className="flex gap-2">
+                <select
+                  value={mergeTargetId}
+                  onChange={e => setMergeTargetId(e.target.value)}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+                >
+                  <option value="">Choose a folder...</option>
+                  {mergeTargets.map(t => <option key={t.id} value={t.id}>{t.path}</option>)}
+                </select>
+                <button onClick={handleMerge} disabled={!mergeTargetId} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/20 text-primary hover:bg-primary/30 transition-colors disabled:opacity-40">
+                  Merge
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!folder.isSystem && (
+            <button onClick={handleDelete} className="flex items-center gap-2 text-sm text-red-500 hover:text-red-400 transition-colors">
+              <TrashIcon size={16}/> Delete folder
+            </button>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-surfaceHighlight flex gap-2 shrink-0">
+          <button onClick={onClose} className="flex-1 px-4 py-3 rounded-xl bg-surfaceHighlight text-textMain font-medium hover:opacity-80 transition-opacity">
+            Cancel
+          </button>
+          <button onClick={handleSave} disabled={!!nameError && !folder.isSystem} className="flex-1 px-4 py-3 rounded-xl bg-primary text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-50">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FolderSettingsSheet;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { BackupPreview, ConflictPolicy } from '../services/backupService';
+import { UploadIcon, XIcon } from './Icons';
+
+interface ImportBackupDialogProps {
+  fileName: string;
+  exportedAt: number;
+  preview: BackupPreview;
+  onConfirm: (policy: ConflictPolicy) => void;
+  onCancel: () => void;
+}
+
+const POLICIES: { id: ConflictPolicy; label: string; description: string }[] = [
+  { id: 'skip', label: 'Skip', description: 'Keep the notes already on this device' },
+  { id: 'overwrite', label: 'Overwrite', description: 'Replace them with the backup version' },
+  { id: 'keepBoth', label: 'Keep both', description: 'Import the backup version as a copy' }
+];
+
+const ImportBackupDialog: React.FC<ImportBackupDialogProps> = ({ fileName, exportedAt, preview, onConfirm, onCancel }) => {
+  const [policy, setPolicy] = useState<ConflictPolicy>('skip');
+
+  const stats: [string, number][] = [
+    ['Notes', preview.notes],
+    ['In trash', preview.trashed],
+    ['Folders', preview.folders],
+    ['Conflicts', preview.conflicts]
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-surface border border-surfaceHighlight rounded-t-2xl sm:rounded-2xl w-full max-w-md flex flex-col shadow-2xl animate-slide-up pb-safe">
+        <div className="flex items-center justify-between px-4 h-14 border-b border-surfaceHighlight shrink-0">
+          <h3 className="font-bold text-textMain flex items-center gap-2"><UploadIcon size={18}/> Import backup</h3>
+          <button onClick={onCancel} className="p-2 -mr-2 text-textMuted hover:text-textMain"><XIcon size={20}/></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="text-xs text-textMuted truncate">
+            {fileName} · exported {new Date(exportedAt).toLocaleString()}
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {stats.map(([label, value]) => (
+              <div key={label} className="bg-background border border-surfaceHighlight rounded-lg p-2 text-center">
+                <div className="text-lg font-bold text-textMain">{value}</div>
+                <div className="text-[10px] uppercase tracking-wide text-textMuted">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          {preview.conflicts > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-textMain">{preview.conflicts} notes already exist</div>
+              {POLICIES.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setPolicy(p.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${policy === p.id ? 'border-primary bg-primary/10' : 'border-surfaceHighlight hover:border-textMuted'}`}
+                >
+                  <div className="text-sm font-medium text-textMain">{p.label}</div>
+                  <div className="text-xs text-textMuted">{p.description}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-surfaceHighlight flex gap-2">
+          <button onClick={onCancel} className="flex-1 px-4 py-3 rounded-xl bg-surfaceHighlight text-textMain font-medium hover:opacity-80 transition-opacity">
+            Cancel
+          </button>
+          <button onClick={() => onConfirm(policy)} className="flex-1 px-4 py-3 rounded-xl bg-primary text-white font-medium hover:opacity-90 transition-opacity">
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportBackupDialog;
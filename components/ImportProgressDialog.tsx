@@ -0,0 +1,70 @@
+import React from 'react';
+import { ImportProgress, ImportReport } from '../services/noteImport';
+import { UploadIcon, XIcon } from './Icons';
+
+interface ImportProgressDialogProps {
+  progress: ImportProgress;
+  report: ImportReport | null; // Set once the import has finished
+  onClose: () => void;
+}
+
+const ImportProgressDialog: React.FC<ImportProgressDialogProps> = ({ progress, report, onClose }) => {
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  const stats: [string, number, string][] = report ? [
+    ['Imported', report.imported, 'text-green-500'],
+    ['Skipped', report.skipped, 'text-amber-500'],
+    ['Failed', report.failed, 'text-red-500']
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-surface border border-surfaceHighlight rounded-t-2xl sm:rounded-2xl w-full max-w-md max-h-[85dvh] flex flex-col shadow-2xl animate-slide-up pb-safe">
+        <div className="flex items-center justify-between px-4 h-14 border-b border-surfaceHighlight shrink-0">
+          <h3 className="font-bold text-textMain flex items-center gap-2"><UploadIcon size={18}/> {report ? 'Import finished' : 'Importing...'}</h3>
+          {report && <button onClick={onClose} className="p-2 -mr-2 text-textMuted hover:text-textMain"><XIcon size={20}/></button>}
+        </div>
+
+        {!report ? (
+          <div className="p-4 space-y-2">
+            <div className="h-2 rounded-full bg-surfaceHighlight overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex justify-between text-xs text-textMuted gap-4">
+              <span className="truncate">{progress.current}</span>
+              <span className="shrink-0">{progress.done} / {progress.total}</span>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="p-4 grid grid-cols-3 gap-2 shrink-0">
+              {stats.map(([label, value, color]) => (
+                <div key={label} className="bg-background border border-surfaceHighlight rounded-lg p-2 text-center">
+                  <div className={`text-lg font-bold ${value > 0 ? color : 'text-textMain'}`}>{value}</div>
+                  <div className="text-[10px] uppercase tracking-wide text-textMuted">{label}</div>
+                </div>
+              ))}
+            </div>
+            {report.issues.length > 0 && (
+              <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-1">
+                {report.issues.map((issue, index) => (
+                  <div key={index} className="text-xs flex gap-2">
+                    <span className={`shrink-0 font-semibold uppercase ${issue.kind === 'failed' ? 'text-red-500' : 'text-amber-500'}`}>{issue.kind}</span>
+                    <span className="text-textMuted break-all">{issue.source}: {issue.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="p-4 border-t border-surfaceHighlight shrink-0">
+              <button onClick={onClose} className="w-full px-4 py-3 rounded-xl bg-primary text-white font-medium hover:opacity-90 transition-opacity">
+                Done
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportProgressDialog;
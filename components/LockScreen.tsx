@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { unlockVault, isReencryptingElsewhere, subscribeVault } from '../services/vault';
+import { LockIcon } from './Icons';
+
+const LockScreen: React.FC = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isWaiting, setIsWaiting] = useState(isReencryptingElsewhere);
+
+  useEffect(() => subscribeVault(() => setIsWaiting(isReencryptingElsewhere())), []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking || isWaiting) return;
+    setIsUnlocking(true);
+    setError('');
+    // On success the gate swaps this screen for the app
+    const unlocked = await unlockVault(passphrase).catch(err => {
+      console.error("Failed to unlock", err);
+      return false;
+    });
+    if (!unlocked) {
+      setError('Wrong passphrase');
+      setIsUnlocking(false);
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div className="min-h-[100dvh] bg-background text-textMain flex items-center justify-center p-6 animate-fade-in">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-surface border border-surfaceHighlight rounded-2xl p-6 space-y-4 shadow-2xl">
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="w-12 h-12 rounded-full bg-primary/10 text-primary flex items-center justify-center"><LockIcon size={22}/></div>
+          <h1 className="text-lg font-bold">Sanchita Notes is locked</h1>
+          <p className="text-sm text-textMuted">
+            {isWaiting
+              ? 'Encryption is being updated in another tab. You can unlock once it is done.'
+              : 'Enter your passphrase to decrypt your notes.'}
+          </p>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full bg-background border border-surfaceHighlight rounded-lg px-3 py-2 text-sm text-textMain outline-none focus:border-primary"
+        />
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        <button type="submit" disabled={!passphrase || isUnlocking || isWaiting} className="w-full px-4 py-3 rounded-xl bg-primary text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-50">
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
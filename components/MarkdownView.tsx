@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, Block, InlineNode, ListItem } from '../services/markdown';
+import { highlightCode, CodeTokenKind } from '../services/syntaxHighlight';
+
+interface MarkdownViewProps {
+  content: string;
+  onTagClick?: (tag: string) => void;
+  onFolderClick?: (name: string) => void;
+  onToggleTask?: (line: number) => void; // Checkboxes are read-only without it
+  onWikiLinkClick?: (title: string) => void;
+  isWikiLinkResolved?: (title: string) => boolean;
+}
+
+const CODE_TOKEN_CLASSES: Record<CodeTokenKind, string> = {
+  plain: '',
+  keyword: 'text-primary font-semibold',
+  string: 'text-green-500',
+  comment: 'text-textMuted italic',
+  number: 'text-amber-500',
+  literal: 'text-blue-500'
+};
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold mt-6 mb-3',
+  'text-xl font-bold mt-5 mb-2',
+  'text-lg font-bold mt-4 mb-2',
+  'text-base font-bold mt-3 mb-1',
+  'text-sm font-bold mt-3 mb-1',
+  'text-sm font-semibold text-textMuted mt-3 mb-1'
+];
+
+const MarkdownView: React.FC<MarkdownViewProps> = ({ content, onTagClick, onFolderClick, onToggleTask, onWikiLinkClick, isWikiLinkResolved }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return <code key={index} className="px-1.5 py-0.5 rounded bg-surfaceHighlight text-[0.9em] font-mono">{node.text}</code>;
+      case 'strong':
+        return <strong key={index} className="font-bold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index} className="opacity-70">{renderInline(node.children)}</del>;
+      case 'link':
+        // Unsafe schemes (javascript:, data:, ...) render as plain text
+        return node.href
+          ? <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-2 break-words">{renderInline(node.children)}</a>
+          : <span key={index}>{renderInline(node.children)}</span>;
+      case 'tag':
+        return (
+          <button key={index} onClick={() => onTagClick?.(node.name)} className="inline-flex items-center px-1.5 rounded-md bg-primary/10 text-primary font-semibold hover:bg-primary/20 transition-colors">
+            #{node.name}
+          </button>
+        );
+      case 'folder':
+        return (
+          <button key={index} onClick={() => onFolderClick?.(node.name)} className="inline-flex items-center px-1.5 rounded-md bg-blue-500/10 text-blue-500 font-semibold hover:bg-blue-500/20 transition-colors">
+            @{node.name}
+          </button>
+        );
+      case 'wikilink': {
+        // Links to titles that don't exist yet are dashed, clicking offers to create the note
+        const resolved = isWikiLinkResolved ? isWikiLinkResolved(node.title) : true;
+        return (
+          <button
+            key={index}
+            onClick={() => onWikiLinkClick?.(node.title)}
+            title={resolved ? node.title : `Create "${node.title}"`}
+            className={`inline text-left font-medium underline underline-offset-2 transition-colors ${resolved ? 'text-primary decoration-primary/40 hover:decoration-primary' : 'text-textMuted decoration-dashed hover:text-primary'}`}
+          >
+            {node.label}
+          </button>
+        );
+      }
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+  const renderListItem = (item: ListItem, index: number) => (
+    <li key={index} className={item.checked !== null ? 'list-none -ml-5 flex items-start gap-2' : ''}>
+      {item.checked !== null && (
+        <input
+          type="checkbox"
+          checked={item.checked}
+          disabled={!onToggleTask}
+          onChange={() => onToggleTask?.(item.line)}
+          className="mt-1.5 w-4 h-4 shrink-0 accent-primary cursor-pointer disabled:cursor-default"
+        />
+      )}
+      <div className={item.checked ? 'line-through text-textMuted' : ''}>
+        {renderInline(item.children)}
+        {renderBlocks(item.blocks)}
+      </div>
+    </li>
+  );
+
+  const renderBlocks = (list: Block[]): React.ReactNode[] => list.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={index} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={index} className="my-2 whitespace-pre-wrap">{renderInline(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={index} className="my-3 p-3 rounded-lg bg-surface border border-surfaceHighlight overflow-x-auto text-sm leading-snug">
+            <code className="font-mono">
+              {highlightCode(block.text, block.lang).map((token, i) => (
+                <span key={i} className={CODE_TOKEN_CLASSES[token.kind]}>{token.text}</span>
+              ))}
+            </code>
+          </pre>
+        );
+      case 'blockquote':
+        return <blockquote key={index} className="my-3 pl-4 border-l-4 border-surfaceHighlight text-textMuted">{renderBlocks(block.blocks)}</blockquote>;
+      case 'list':
+        return block.ordered
+          ? <ol key={index} start={block.start} className="my-2 pl-6 list-decimal space-y-1">{block.items.map(renderListItem)}</ol>
+          : <ul key={index} className="my-2 pl-6 list-disc space-y-1">{block.items.map(renderListItem)}</ul>;
+      case 'table':
+        return (
+          <div key={index} className="my-3 overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} style={{ textAlign: block.align[c] || undefined }} className="px-3 py-2 border border-surfaceHighlight bg-surface font-semibold text-left">{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td key={c} style={{ textAlign: block.align[c] || undefined }} className="px-3 py-2 border border-surfaceHighlight">{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'hr':
+        return <hr key={index} className="my-4 border-surfaceHighlight" />;
+    }
+  });
+
+  return (
+    <div className="font-sans text-lg leading-relaxed text-textMain break-words">
+      {renderBlocks(blocks)}
+    </div>
+  );
+};
+
+export default MarkdownView;
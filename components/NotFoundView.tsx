@@ -0,0 +1,42 @@
+import React from 'react';
+import { ChevronLeftIcon, SearchIcon } from './Icons';
+
+interface NotFoundViewProps {
+  title: string;
+  message: string;
+  actions: { label: string; onClick: () => void; isPrimary?: boolean }[];
+  onBack: () => void;
+}
+
+// Shown in place of a note or folder a link points to but that isn't there
+const NotFoundView: React.FC<NotFoundViewProps> = ({ title, message, actions, onBack }) => (
+  <div className="fixed inset-0 bg-background z-[60] flex flex-col h-dvh animate-fade-in">
+    <div className="pt-safe border-b border-surfaceHighlight shrink-0">
+      <div className="h-14 flex items-center px-4">
+        <button onClick={onBack} className="p-2 -ml-2 text-textMuted hover:text-textMain">
+          <ChevronLeftIcon />
+        </button>
+      </div>
+    </div>
+    <div className="flex-1 flex flex-col items-center justify-center text-center px-6 pb-24">
+      <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-surfaceHighlight text-textMuted mb-4">
+        <SearchIcon size={24} />
+      </div>
+      <h2 className="text-lg font-bold text-textMain mb-2">{title}</h2>
+      <p className="text-sm text-textMuted max-w-sm mb-6">{message}</p>
+      <div className="flex flex-col sm:flex-row gap-2 w-full max-w-xs">
+        {actions.map(action => (
+          <button
+            key={action.label}
+            onClick={action.onClick}
+            className={`flex-1 px-4 py-3 rounded-xl font-medium transition-opacity ${action.isPrimary ? 'bg-primary text-white hover:opacity-90' : 'bg-surfaceHighlight text-textMain hover:opacity-80'}`}
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default NotFoundView;
@@ -1,26 +1,41 @@
 
 import React from 'react';
 import { Note } from '../types';
-import { CheckCircleIcon, CircleIcon } from './Icons';
+import { CheckCircleIcon, CircleIcon, PinIcon } from './Icons';
+import { buildSnippet, highlightText, HighlightSegment } from '../services/searchIndex';
 
 interface NoteCardProps {
   note: Note;
-  onClick: (note: Note) => void;
+  onClick: (note: Note, e: React.MouseEvent) => void;
   isSelectionMode?: boolean;
   isSelected?: boolean;
+  highlightTerms?: string[];
 }
 
-const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, isSelectionMode, isSelected }) => {
+const renderSegments = (segments: HighlightSegment[]) => segments.map((segment, index) =>
+  segment.isMatch
+    ? <mark key={index} className="bg-primary/25 text-textMain rounded-sm px-0.5">{segment.text}</mark>
+    : <React.Fragment key={index}>{segment.text}</React.Fragment>
+);
+
+const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, isSelectionMode, isSelected, highlightTerms = [] }) => {
+  // While searching, show the matched passage instead of the opening lines
+  const snippet = highlightTerms.length > 0
+    ? buildSnippet(note.content, highlightTerms) || (note.summary ? buildSnippet(note.summary, highlightTerms) : null)
+    : null;
+  const title = highlightTerms.length > 0 ? renderSegments(highlightText(note.title, highlightTerms)) : note.title;
+  const body = snippet ? renderSegments(snippet) : note.content;
+
   return (
     <div 
-      onClick={() => onClick(note)}
+      onClick={(e) => onClick(note, e)}
       className={`relative bg-surface p-5 rounded-xl border mb-3 transition-all cursor-pointer group
         ${isSelected 
             ? 'border-primary bg-primary/5' 
             : 'border-surfaceHighlight hover:border-primary/50 active:bg-surfaceHighlight'
         }`}
     >
-      {isSelectionMode && (
+      {isSelectionMode ? (
          <div className="absolute top-4 right-4 z-10">
              {isSelected ? (
                  <CheckCircleIcon size={22} className="text-primary" />
@@ -28,19 +43,21 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, isSelectionMode, isS
                  <CircleIcon size={22} className="text-textMuted" />
              )}
          </div>
+      ) : note.isPinned && (
+         <PinIcon size={14} fill="currentColor" className="absolute top-4 right-4 text-primary" />
       )}
 
-      <div className={isSelectionMode ? 'pr-8' : ''}>
+      <div className={isSelectionMode || note.isPinned ? 'pr-8' : ''}>
           {note.title ? (
               <>
-                  <h3 className="text-textMain font-bold text-lg mb-1 line-clamp-1">{note.title}</h3>
+                  <h3 className="text-textMain font-bold text-lg mb-1 line-clamp-1">{title}</h3>
                   <p className="text-textMuted text-sm leading-relaxed line-clamp-2">
-                    {note.content || <span className="italic opacity-50">No additional text</span>}
+                    {body || <span className="italic opacity-50">No additional text</span>}
                   </p>
               </>
           ) : (
               <p className="text-textMain text-base leading-relaxed line-clamp-3">
-                {note.content || <span className="italic opacity-50">Empty note</span>}
+                {body || <span className="italic opacity-50">Empty note</span>}
               </p>
           )}
       </div>
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { NoteRevision } from '../types';
+import { getRevisions } from '../services/revisionService';
+import { diffLines, diffWords, diffStats } from '../services/textDiff';
+import { HistoryIcon, RestoreIcon, XIcon } from './Icons';
+
+interface RevisionHistoryProps {
+  noteId: string;
+  currentTitle: string;
+  currentContent: string;
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}
+
+type DiffMode = 'lines' | 'words';
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ noteId, currentTitle, currentContent, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('lines');
+
+  useEffect(() => {
+    let cancelled = false;
+    getRevisions(noteId)
+      .then(list => {
+        if (cancelled) return;
+        const newestFirst = [...list].reverse();
+        setRevisions(newestFirst);
+        setSelectedId(newestFirst[0]?.id || null);
+      })
+      .catch(e => {
+        console.error("Failed to load revisions", e);
+        if (!cancelled) setRevisions([]);
+      });
+    return () => { cancelled = true; };
+  }, [noteId]);
+
+  const selected = revisions?.find(r => r.id === selectedId) || null;
+
+  // Diff reads as "what restoring this revision would change"
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    return mode === 'lines'
+      ? diffLines(currentContent, selected.content)
+      : diffWords(currentContent, selected.content);
+  }, [selected, currentContent, mode]);
+
+  const isCurrent = (r: NoteRevision) => r.content === currentContent && r.title === currentTitle;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-surface border border-surfaceHighlight rounded-t-2xl sm:rounded-2xl w-full max-w-2xl h-[85dvh] flex flex-col shadow-2xl animate-slide-up pb-safe">
+        <div className="flex items-center justify-between px-4 h-14 border-b border-surfaceHighlight shrink-0">
+          <h3 className="font-bold text-textMain flex items-center gap-2"><HistoryIcon size={18}/> History</h3>
+          <button onClick={onClose} className="p-2 -mr-2 text-textMuted hover:text-textMain"><XIcon size={20}/></button>
+        </div>
+
+        {revisions === null ? (
+          <div className="flex-1 flex items-center justify-center text-textMuted text-sm">Loading...</div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-textMuted text-sm">No saved revisions yet</div>
+        ) : (
+          <>
+            <div className="flex gap-2 overflow-x-auto no-scrollbar px-4 py-3 border-b border-surfaceHighlight shrink-0">
+              {revisions.map(r => (
+                <button
+                  key={r.id}
+                  onClick={() => setSelectedId(r.id)}
+                  className={`shrink-0 text-left px-3 py-2 rounded-lg border text-xs transition-colors ${r.id === selectedId ? 'border-primary bg-primary/10 text-textMain' : 'border-surfaceHighlight text-textMuted hover:border-textMuted'}`}
+                >
+                  <div className="font-medium">{formatTime(r.createdAt)}</div>
+                  <div className="opacity-70">{isCurrent(r) ? 'Current' : `${r.content.length} chars`}</div>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="flex items-center justify-between px-4 py-2 shrink-0 text-xs">
+                <div className="flex gap-1">
+                  {(['lines', 'words'] as DiffMode[]).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      className={`px-3 py-1 rounded-md capitalize ${mode === m ? 'bg-surfaceHighlight text-textMain' : 'text-textMuted hover:text-textMain'}`}
+                    >
+                      {m}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-textMuted">
+                  <span className="text-green-500">+{diffStats(diff).added}</span>{' '}
+                  <span className="text-red-400">-{diffStats(diff).removed}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto px-4 pb-4">
+              {selected && selected.title !== currentTitle && (
+                <div className="text-sm mb-2">
+                  <span className="text-textMuted">Title: </span>
+                  <span className="line-through text-red-400 mr-2">{currentTitle || 'Untitled'}</span>
+                  <span className="text-green-500">{selected.title || 'Untitled'}</span>
+                </div>
+              )}
+              <pre className="font-sans text-sm leading-relaxed whitespace-pre-wrap break-words">
+                {diff.map((part, index) => (
+                  <span
+                    key={index}
+                    className={
+                      part.op === 'insert' ? 'bg-green-500/15 text-green-500' :
+                      part.op === 'delete' ? 'bg-red-500/15 text-red-500 line-through' :
+                      'text-textMain'
+                    }
+                  >
+                    {part.text}
+                  </span>
+                ))}
+              </pre>
+            </div>
+
+            {selected && (
+              <div className="p-4 border-t border-surfaceHighlight shrink-0">
+                <button
+                  onClick={() => onRestore(selected)}
+                  disabled={isCurrent(selected)}
+                  className="w-full px-4 py-3 rounded-xl bg-primary/20 text-primary font-medium hover:bg-primary/30 transition-colors flex items-center justify-center gap-2 disabled:opacity-40"
+                >
+                  <RestoreIcon size={18}/> Restore this version
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
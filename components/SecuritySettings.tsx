@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useVaultConfig, enableVault, changePassphrase, disableVault, lockVault, setAutoLockMinutes, AUTO_LOCK_OPTIONS, MIN_PASSPHRASE_LENGTH } from '../services/vault';
+import { LockIcon } from './Icons';
+
+type Mode = 'enable' | 'change' | 'remove' | null;
+
+const inputClass = "w-full mt-1 px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary";
+
+const SecuritySettings: React.FC = () => {
+  const config = useVaultConfig();
+  const [mode, setMode] = useState<Mode>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const openMode = (value: Mode) => {
+    setMode(mode === value ? null : value);
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+    setError('');
+  };
+
+  const validateNext = () => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    if (next !== confirmation) return 'Passphrases do not match';
+    return '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = mode === 'remove' ? '' : validateNext();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    try {
+      // Every stored note is re-encrypted, which takes a moment on large libraries
+      const ok = mode === 'enable' ? (await enableVault(next), true)
+        : mode === 'change' ? await changePassphrase(current, next)
+        : await disableVault(current);
+      if (ok) openMode(null);
+      else setError('Current passphrase is wrong');
+    } catch (err) {
+      console.error("Failed to update passphrase", err);
+      setError('Could not re-encrypt your notes');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const passwordField = (label: string, value: string, onChange: (value: string) => void, autoComplete: string) => (
+    <label className="block">
+      <span className="text-xs text-textMuted">{label}</span>
+      <input type="password" value={value} autoComplete={autoComplete} onChange={e => onChange(e.target.value)} className={inputClass} />
+    </label>
+  );
+
+  const form = mode && (
+    <form onSubmit={handleSubmit} className="p-4 border-t border-surfaceHighlight space-y-2">
+      {mode !== 'enable' && passwordField('Current passphrase', current, setCurrent, 'current-password')}
+      {mode !== 'remove' && passwordField('New passphrase', next, setNext, 'new-password')}
+      {mode !== 'remove' && passwordField('Repeat new passphrase', confirmation, setConfirmation, 'new-password')}
+      {mode === 'enable' && <p className="text-xs text-amber-500">There is no way to recover notes if the passphrase is forgotten.</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2 pt-1">
+        <button type="button" onClick={() => openMode(null)} className="px-3 py-1.5 rounded-lg text-xs font-medium text-textMuted hover:text-textMain transition-colors">Cancel</button>
+        <button type="submit" disabled={isWorking} className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 ${mode === 'remove' ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30' : 'bg-primary/20 text-primary hover:bg-primary/30'}`}>
+          {isWorking ? 'Encrypting...' : mode === 'enable' ? 'Set passphrase' : mode === 'change' ? 'Change passphrase' : 'Remove passphrase'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="bg-surface border border-surfaceHighlight rounded-xl overflow-hidden">
+      <div className="p-4 border-b border-surfaceHighlight">
+        <h3 className="font-semibold text-textMain">Security</h3>
+      </div>
+      {!config ? (
+        <>
+          <button onClick={() => openMode('enable')} className="w-full flex items-center gap-3 p-4 hover:bg-surfaceHighlight transition-colors">
+            <LockIcon size={20} className="text-primary" />
+            <div className="text-left">
+              <div className="text-textMain font-medium">Set a passphrase</div>
+              <div className="text-textMuted text-xs">Encrypt notes stored on this device and lock the app</div>
+            </div>
+          </button>
+          {form}
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between p-4 border-b border-surfaceHighlight">
+            <div>
+              <div className="text-textMain font-medium">Auto-lock</div>
+              <div className="text-textMuted text-xs">After this long without input</div>
+            </div>
+            <select
+              value={config.autoLockMinutes}
+              onChange={e => setAutoLockMinutes(Number(e.target.value))}
+              className="px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} min`}</option>
+              ))}
+            </select>
+          </div>
+          <button onClick={lockVault} className="w-full flex items-center gap-3 p-4 hover:bg-surfaceHighlight transition-colors border-b border-surfaceHighlight">
+            <LockIcon size={20} className="text-primary" />
+            <div className="text-left">
+              <div className="text-textMain font-medium">Lock now</div>
+              <div className="text-textMuted text-xs">Notes are encrypted with your passphrase</div>
+            </div>
+          </button>
+          <div className="flex gap-2 p-4">
+            <button onClick={() => openMode('change')} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-primary/20 text-primary hover:bg-primary/30 transition-colors">Change passphrase</button>
+            <button onClick={() => openMode('remove')} className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-500 hover:bg-red-500/10 transition-colors">Remove passphrase</button>
+          </div>
+          {form}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SecuritySettings;
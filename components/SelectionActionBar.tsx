@@ -0,0 +1,49 @@
+import React from 'react';
+import { CheckCircleIcon, CircleIcon } from './Icons';
+
+export interface SelectionAction {
+  label: string;
+  icon: React.ReactNode;
+  onClick: () => void;
+  disabled?: boolean;
+  isDestructive?: boolean;
+}
+
+interface SelectionActionBarProps {
+  count: number;
+  total: number; // Notes in the current view
+  onToggleAll: () => void;
+  actions: SelectionAction[];
+}
+
+// Takes the place of the bottom nav while selecting
+const SelectionActionBar: React.FC<SelectionActionBarProps> = ({ count, total, onToggleAll, actions }) => {
+  const allSelected = total > 0 && count === total;
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 bg-surface/90 backdrop-blur-lg border-t border-surfaceHighlight pb-safe pt-1 px-4 z-50 animate-slide-up">
+      <div className="flex items-center justify-between gap-2 max-w-lg mx-auto pb-2">
+        <button onClick={onToggleAll} className="flex items-center gap-2 h-14 pr-2 text-sm text-textMuted hover:text-textMain transition-colors shrink-0">
+          {allSelected ? <CheckCircleIcon size={20} className="text-primary" /> : <CircleIcon size={20} />}
+          <span>{count > 0 ? `${count} selected` : 'Select all'}</span>
+        </button>
+        <div className="flex items-center gap-1 overflow-x-auto no-scrollbar">
+          {actions.map(action => (
+            <button
+              key={action.label}
+              onClick={action.onClick}
+              disabled={action.disabled || count === 0}
+              title={action.label}
+              className={`flex flex-col items-center justify-center w-14 h-14 shrink-0 rounded-xl transition-colors disabled:opacity-30 ${action.isDestructive ? 'text-red-400 hover:bg-red-500/10' : 'text-textMuted hover:text-textMain hover:bg-surfaceHighlight'}`}
+            >
+              {action.icon}
+              <span className="text-[10px] mt-1 font-medium">{action.label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SelectionActionBar;
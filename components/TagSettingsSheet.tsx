@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { TagInfo, COLOR_OPTIONS } from '../types';
+import { TAG_PATTERN } from '../services/tagRegistry';
+import { normalizeTag } from '../services/noteImport';
+import { HashIcon, TrashIcon, XIcon } from './Icons';
+
+interface TagSettingsSheetProps {
+  tag: string;
+  info: TagInfo;
+  noteCount: number;
+  allTags: string[];
+  defaultColor: string;
+  onSave: (name: string, info: TagInfo) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const TagSettingsSheet: React.FC<TagSettingsSheetProps> = ({ tag, info, noteCount, allTags, defaultColor, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(tag);
+  const [color, setColor] = useState(info.color);
+  const [description, setDescription] = useState(info.description || '');
+
+  const nextName = normalizeTag(name);
+  const isMerge = nextName !== tag && allTags.includes(nextName);
+  const nameError = !nextName ? 'Enter a name' : !TAG_PATTERN.test(nextName) ? 'Use letters, numbers, "-" and "_" only' : '';
+
+  const handleSave = () => {
+    if (nameError) return;
+    if (isMerge && !window.confirm(`Merge #${tag} into #${nextName}? Notes tagged #${tag} will be tagged #${nextName}.`)) return;
+    onSave(nextName, { color, description });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Remove #${tag} from ${noteCount} note${noteCount === 1 ? '' : 's'}? Inline mentions keep their text.`)) return;
+    onDelete();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="bg-surface border border-surfaceHighlight rounded-t-2xl sm:rounded-2xl w-full max-w-md max-h-[90vh] flex flex-col shadow-2xl animate-slide-up pb-safe">
+        <div className="flex items-center justify-between px-4 h-14 border-b border-surfaceHighlight shrink-0">
+          <h3 className="font-bold text-textMain flex items-center gap-2">
+            <span style={{ color: color || defaultColor }}><HashIcon size={18}/></span> {tag}
+          </h3>
+          <button onClick={onClose} className="p-2 -mr-2 text-textMuted hover:text-textMain"><XIcon size={20}/></button>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto">
+          <label className="block">
+            <span className="text-xs text-textMuted">Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+              className="w-full mt-1 px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+            />
+            {nameError ? (
+              <span className="text-xs text-red-400">{nameError}</span>
+            ) : isMerge ? (
+              <span className="text-xs text-amber-500">#{nextName} already exists, saving merges the two tags</span>
+            ) : nextName !== tag && (
+              <span className="text-xs text-textMuted">Renames the tag and its #mentions in {noteCount} note{noteCount === 1 ? '' : 's'}</span>
+            )}
+          </label>
+
+          <label className="block">
+            <span className="text-xs text-textMuted">Description</span>
+            <input
+              type="text"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="What this tag is for"
+              className="w-full mt-1 px-3 py-2 rounded-lg bg-background border border-surfaceHighlight text-sm text-textMain outline-none focus:border-primary"
+            />
+          </label>
+
+          <div>
+            <div className="text-xs text-textMuted mb-2">Color</div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setColor(undefined)}
+                className={`w-7 h-7 rounded-full border-2 ${!color ? 'border-textMain' : 'border-transparent'}`}
+                style={{ backgroundColor: defaultColor }}
+                title="Default"
+              />
+              {COLOR_OPTIONS.map(c => (
+                <button
+                  key={c}
+                  onClick={() => setColor(c)}
+                  className={`w-7 h-7 rounded-full border-2 ${color === c ? 'border-textMain' : 'border-transparent'}`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <button onClick={handleDelete} className="flex items-center gap-2 text-sm text-red-500 hover:text-red-400 transition-colors">
+            <TrashIcon size={16}/> Remove from all notes
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-surfaceHighlight flex gap-2 shrink-0">
+          <button onClick={onClose} className="flex-1 px-4 py-3 rounded-xl bg-surfaceHighlight text-textMain font-medium hover:opacity-80 transition-opacity">
+            Cancel
+          </button>
+          <button onClick={handleSave} disabled={!!nameError} className="flex-1 px-4 py-3 rounded-xl bg-primary text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-50">
+            {isMerge ? 'Merge' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagSettingsSheet;
@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { Note, Folder } from '../types';
+import { extractChecklistItems, ChecklistItem } from '../services/checklist';
+import { CircleIcon, FolderIcon, HashIcon, ListChecksIcon } from './Icons';
+
+interface TasksViewProps {
+  notes: Note[];
+  folders: Folder[];
+  onOpenNote: (id: string) => void;
+  onToggleTask: (note: Note, line: number) => void;
+}
+
+type GroupBy = 'note' | 'folder' | 'tag';
+
+interface TaskGroup {
+  key: string;
+  label: string;
+  items: ChecklistItem[];
+}
+
+const TasksView: React.FC<TasksViewProps> = ({ notes, folders, onOpenNote, onToggleTask }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('note');
+
+  const liveNotes = useMemo(() => notes.filter(n => !n.isDeleted), [notes]);
+  const notesById = useMemo(() => new Map(liveNotes.map(n => [n.id, n])), [liveNotes]);
+
+  const openItems = useMemo(() => [...liveNotes]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .flatMap(n => extractChecklistItems(n).filter(item => !item.checked)), [liveNotes]);
+
+  const groups = useMemo(() => {
+    const map = new Map<string, TaskGroup>();
+    const add = (key: string, label: string, item: ChecklistItem) => {
+      if (!map.has(key)) map.set(key, { key, label, items: [] });
+      map.get(key)!.items.push(item);
+    };
+
+    openItems.forEach(item => {
+      const note = notesById.get(item.noteId)!;
+      if (groupBy === 'note') {
+        add(note.id, note.title || 'Untitled', item);
+      } else if (groupBy === 'folder') {
+        const noteFolders = folders.filter(f => note.folderIds.includes(f.id));
+        if (noteFolders.length === 0) add('', 'No folder', item);
+        noteFolders.forEach(f => add(f.id, f.name, item));
+      } else {
+        if (note.tags.length === 0) add('', 'Untagged', item);
+        note.tags.forEach(t => add(t, `#${t}`, item));
+      }
+    });
+
+    // Named groups alphabetically, the catch-all group last
+    return [...map.values()].sort((a, b) =>
+      groupBy === 'note' ? 0 : (a.key === '' ? 1 : b.key === '' ? -1 : a.label.localeCompare(b.label)));
+  }, [openItems, notesById, folders, groupBy]);
+
+  const GroupIcon = groupBy === 'folder' ? FolderIcon : groupBy === 'tag' ? HashIcon : ListChecksIcon;
+
+  return (
+    <div className="p-4 pt-20 pb-24 max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-textMuted text-sm font-medium">Open Tasks ({openItems.length})</h2>
+        <div className="flex gap-1 bg-surface border border-surfaceHighlight rounded-lg p-0.5">
+          {(['note', 'folder', 'tag'] as GroupBy[]).map(g => (
+            <button
+              key={g}
+              onClick={() => setGroupBy(g)}
+              className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${groupBy === g ? 'bg-primary text-white' : 'text-textMuted hover:text-textMain'}`}
+            >
+              {g}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {openItems.length === 0 ? (
+        <div className="text-center text-textMuted mt-20">
+          <p>No open tasks</p>
+          <p className="text-xs mt-2 opacity-70">Write "- [ ] something" in any note</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.key || '__none'} className="bg-surface border border-surfaceHighlight rounded-xl overflow-hidden">
+              <div className="px-4 py-2 border-b border-surfaceHighlight flex items-center gap-2 text-sm font-semibold text-textMain">
+                <GroupIcon size={14} className="text-textMuted" />
+                <span className="truncate">{group.label}</span>
+                <span className="ml-auto text-xs text-textMuted font-normal">{group.items.length}</span>
+              </div>
+              {group.items.map(item => {
+                const note = notesById.get(item.noteId)!;
+                return (
+                  <div key={`${item.noteId}:${item.line}`} className="flex items-start gap-3 px-4 py-3 border-b border-surfaceHighlight/50 last:border-b-0 hover:bg-surfaceHighlight/50 transition-colors">
+                    <button onClick={() => onToggleTask(note, item.line)} className="mt-0.5 text-textMuted hover:text-primary shrink-0">
+                      <CircleIcon size={18} />
+                    </button>
+                    <button onClick={() => onOpenNote(item.noteId)} className="flex-1 text-left min-w-0">
+                      <div className="text-sm text-textMain">{item.text || <span className="italic opacity-50">Empty item</span>}</div>
+                      {groupBy !== 'note' && (
+                        <div className="text-xs text-textMuted truncate">{note.title || 'Untitled'}</div>
+                      )}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TasksView;
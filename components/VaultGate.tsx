@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { isLocked, lockVault, isAutoLockHeld, getVaultConfig, subscribeVault, watchVaultChanges } from '../services/vault';
+import LockScreen from './LockScreen';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Nothing below this renders, and so nothing is read from storage, until the
+// vault is unlocked. Locking unmounts the app, dropping every decrypted note.
+const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locked, setLocked] = useState(isLocked);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => getVaultConfig()?.autoLockMinutes ?? 0);
+
+  useEffect(() => {
+    const unsubscribe = subscribeVault(() => {
+      setLocked(isLocked());
+      setAutoLockMinutes(getVaultConfig()?.autoLockMinutes ?? 0);
+    });
+    const unwatch = watchVaultChanges();
+    return () => {
+      unsubscribe();
+      unwatch();
+    };
+  }, []);
+
+  // Auto-lock after a stretch without input, waiting another stretch while
+  // something holds it off
+  useEffect(() => {
+    if (locked || autoLockMinutes <= 0) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => (isAutoLockHeld() ? resetTimer() : lockVault()), autoLockMinutes * 60_000);
+    };
+    resetTimer();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [locked, autoLockMinutes]);
+
+  return locked ? <LockScreen /> : <>{children}</>;
+};
+
+export default VaultGate;
@@ -0,0 +1,207 @@
+// Self-hostable sync server for Sanchita Notes. No dependencies beyond Node.
+//
+//   PORT=8787 SYNC_DATA_DIR=./sync-data node server/syncServer.js
+//
+// Each bearer token is its own account: the token is hashed into a user id and
+// that user's records live in one JSON file. Every accepted change gets the
+// next revision number of that user, and clients pull everything newer than
+// the revision they last saw. Notes may carry a `crdt` merge state; the server
+// stores it opaquely and clients merge concurrent edits themselves.
+
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// --- Storage ---
+
+const stores = new Map(); // userId -> Promise<store>
+const writeQueues = new Map(); // userId -> Promise, serializes writes per user
+
+const storePath = (userId) => path.join(DATA_DIR, `${userId}.json`);
+
+const loadStore = (userId) => {
+  if (!stores.has(userId)) {
+    stores.set(userId, fs.readFile(storePath(userId), 'utf8')
+      .then(text => JSON.parse(text))
+      .catch(e => {
+        if (e.code === 'ENOENT') return { rev: 0, notes: {}, folders: {} };
+        stores.delete(userId);
+        throw e;
+      }));
+  }
+  return stores.get(userId);
+};
+
+// Write to a temp file and rename so a crash never leaves a half-written store
+const saveStore = async (userId, store) => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const target = storePath(userId);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(store));
+  await fs.rename(temp, target);
+};
+
+const withUserLock = (userId, task) => {
+  const previous = writeQueues.get(userId) || Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  writeQueues.set(userId, next);
+  return next;
+};
+
+// --- Conflict resolution ---
+
+// Deterministic last-writer-wins, so every replica picks the same winner no
+// matter the order changes arrive in: newer updatedAt wins; on a tie a purge
+// (data: null) wins, then the lexicographically greater serialization.
+const isNewer = (incoming, current) => {
+  if (!current) return true;
+  if (incoming.updatedAt !== current.updatedAt) return incoming.updatedAt > current.updatedAt;
+  if ((incoming.data === null) !== (current.data === null)) return incoming.data === null;
+  return JSON.stringify(incoming.data) > JSON.stringify(current.data);
+};
+
+const isValidRecord = (record) =>
+  record && typeof record.id === 'string' && record.id.length > 0 &&
+  typeof record.updatedAt === 'number' && Number.isFinite(record.updatedAt) &&
+  (record.data === null || (typeof record.data === 'object' && !Array.isArray(record.data) && record.data.id === record.id)) &&
+  (record.crdt === undefined || (typeof record.crdt === 'object' && record.crdt !== null && !Array.isArray(record.crdt)));
+
+// Returns the ids whose pushed version lost to the stored one
+const applyRecords = (store, collection, records) => {
+  const rejected = [];
+  records.forEach(record => {
+    const current = store[collection][record.id];
+    if (!isNewer(record, current)) {
+      rejected.push(record.id);
+      return;
+    }
+    store.rev++;
+    const stored = { id: record.id, updatedAt: record.updatedAt, data: record.data, rev: store.rev };
+    if (record.data !== null && record.crdt) stored.crdt = record.crdt;
+    store[collection][record.id] = stored;
+  });
+  return rejected;
+};
+
+// Everything newer than `since`, plus the winners of the caller's rejected
+// pushes, which may be older than `since` but the caller doesn't have them
+const changesFor = (store, collection, since, rejected) => {
+  const changes = Object.values(store[collection]).filter(record => record.rev > since);
+  rejected.forEach(id => {
+    const record = store[collection][id];
+    if (record.rev <= since) changes.push(record);
+  });
+  return changes;
+};
+
+// --- HTTP ---
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch (e) {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const userIdFor = (req) => {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/);
+  if (!match || match[1].length < 8) throw new HttpError(401, 'A bearer token of at least 8 characters is required');
+  return crypto.createHash('sha256').update(match[1]).digest('hex').slice(0, 32);
+};
+
+const handleSync = async (req) => {
+  const userId = userIdFor(req);
+  const body = await readJson(req);
+  const since = Number.isInteger(body.since) && body.since >= 0 ? body.since : 0;
+  const notes = Array.isArray(body.notes) ? body.notes : [];
+  const folders = Array.isArray(body.folders) ? body.folders : [];
+  if (![...notes, ...folders].every(isValidRecord)) throw new HttpError(400, 'Malformed sync record');
+
+  return withUserLock(userId, async () => {
+    // Changes go into a copy that replaces the cached store only once it is on
+    // disk, so a failed write doesn't leave accepted-but-unsaved records behind.
+    // Records are replaced, never mutated, so copying the maps is enough.
+    const saved = await loadStore(userId);
+    const store = { ...saved, notes: { ...saved.notes }, folders: { ...saved.folders } };
+    const rejectedNotes = applyRecords(store, 'notes', notes);
+    const rejectedFolders = applyRecords(store, 'folders', folders);
+    if (store.rev !== saved.rev) {
+      await saveStore(userId, store);
+      stores.set(userId, Promise.resolve(store));
+    }
+
+    // Includes the caller's own accepted changes; applying them again is a no-op
+    return {
+      rev: store.rev,
+      notes: changesFor(store, 'notes', since, rejectedNotes),
+      folders: changesFor(store, 'folders', since, rejectedFolders)
+    };
+  });
+};
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const handleRequest = async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method === 'GET' && pathname === '/health') return send(res, 200, { ok: true });
+    if (req.method === 'POST' && pathname === '/sync') return send(res, 200, await handleSync(req));
+    send(res, 404, { error: 'Not found' });
+  } catch (e) {
+    if (e instanceof HttpError) return send(res, e.status, { error: e.message });
+    console.error('Sync request failed', e);
+    send(res, 500, { error: 'Internal server error' });
+  }
+};
+
+// Resolves with the listening server; port 0 picks a free one, as tests do
+export const startSyncServer = (port = PORT) => new Promise((resolve, reject) => {
+  const server = http.createServer(handleRequest);
+  server.once('error', reject);
+  server.listen(port, () => resolve(server));
+});
+
+// Listens when run directly rather than imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startSyncServer().then(server => {
+    console.log(`Sanchita sync server listening on http://localhost:${server.address().port} (data in ${DATA_DIR})`);
+  });
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Note, SyncQueueItem } from '../types';
+import type { NoteSyncRecord, SyncState } from '../services/syncEngine';
+
+// In-memory stand-in for the sync queue and metadata kept in IndexedDB
+const queue = new Map<string, SyncQueueItem>();
+const meta = new Map<string, unknown>();
+vi.mock('../services/noteRepository', () => ({
+  getMeta: async (key: string) => meta.get(key),
+  putMeta: async (key: string, value: unknown) => { meta.set(key, value); },
+  getSyncQueue: async () => [...queue.values()],
+  putSyncQueueItems: async (items: SyncQueueItem[]) => { items.forEach(item => queue.set(item.key, item)); },
+  clearSyncQueue: async () => { queue.clear(); },
+  removeSyncedItems: async (items: SyncQueueItem[]) => {
+    items.forEach(item => {
+      if (queue.get(item.key)?.record.updatedAt === item.record.updatedAt) queue.delete(item.key);
+    });
+  },
+  getNoteCrdt: async () => undefined
+}));
+
+const { createSyncEngine } = await import('../services/syncEngine');
+
+let dataDir: string;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sanchita-sync-'));
+  process.env.SYNC_DATA_DIR = dataDir;
+  const { startSyncServer } = await import('./syncServer.js');
+  server = await startSyncServer(0);
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+// Each test uses its own token, so its own account
+const sync = async (token: string, body: object) => {
+  const response = await fetch(`${baseUrl}/sync`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const note = (id: string, updatedAt: number, fields: object = {}) =>
+  ({ id, updatedAt, data: { id, title: id, content: '', ...fields } });
+
+describe('sync server', () => {
+  it('hands out revisions and returns only what is newer than `since`', async () => {
+    const token = 'token-revisions';
+    expect((await sync(token, { since: 0, notes: [note('a', 1)] })).body.rev).toBe(1);
+    const second = await sync(token, { since: 1, notes: [note('b', 1)], folders: [{ id: 'f', updatedAt: 1, data: { id: 'f', name: 'Work' } }] });
+    expect(second.body.rev).toBe(3);
+
+    const everything = await sync(token, { since: 0 });
+    expect(everything.body.notes.map((r: { id: string }) => r.id).sort()).toEqual(['a', 'b']);
+    expect(everything.body.folders).toHaveLength(1);
+
+    const newer = await sync(token, { since: 2 });
+    expect(newer.body).toEqual({ rev: 3, notes: [], folders: [expect.objectContaining({ id: 'f', rev: 3 })] });
+  });
+
+  it('passes trash moves on as notes and purges as tombstones without merge state', async () => {
+    const token = 'token-tombstones';
+    await sync(token, { since: 0, notes: [{ ...note('a', 1), crdt: { clock: 1 } }] });
+    await sync(token, { since: 1, notes: [note('a', 2, { isDeleted: true, deletedAt: 2 })] });
+    const trashed = await sync(token, { since: 1 });
+    expect(trashed.body.notes).toEqual([expect.objectContaining({ id: 'a', data: expect.objectContaining({ isDeleted: true }) })]);
+
+    await sync(token, { since: 2, notes: [{ id: 'a', updatedAt: 3, data: null, crdt: { clock: 2 } }] });
+    const purged = await sync(token, { since: 2 });
+    expect(purged.body.notes).toEqual([{ id: 'a', updatedAt: 3, data: null, rev: 3 }]);
+  });
+
+  it('sends back the stored winner of a rejected push, even from before `since`', async () => {
+    const token = 'token-rejected';
+    await sync(token, { since: 0, notes: [note('a', 10, { content: 'newer' })] });
+    const stale = await sync(token, { since: 1, notes: [note('a', 5, { content: 'older' })] });
+    expect(stale.body.rev).toBe(1);
+    expect(stale.body.notes).toEqual([expect.objectContaining({ id: 'a', updatedAt: 10, data: expect.objectContaining({ content: 'newer' }) })]);
+  });
+
+  it('picks the same winner for equal timestamps whatever the arrival order', async () => {
+    const first = note('a', 7, { content: 'apple' });
+    const second = note('a', 7, { content: 'banana' });
+    await sync('token-tie-one', { since: 0, notes: [first] });
+    await sync('token-tie-one', { since: 0, notes: [second] });
+    await sync('token-tie-two', { since: 0, notes: [second] });
+    await sync('token-tie-two', { since: 0, notes: [first] });
+
+    const one = (await sync('token-tie-one', { since: 0 })).body.notes[0];
+    const two = (await sync('token-tie-two', { since: 0 })).body.notes[0];
+    expect(one.data.content).toBe('banana');
+    expect(two.data.content).toBe('banana');
+  });
+
+  it('lets a purge win a tie with an edit', async () => {
+    const token = 'token-tie-purge';
+    await sync(token, { since: 0, notes: [{ id: 'a', updatedAt: 4, data: null }] });
+    await sync(token, { since: 1, notes: [note('a', 4)] });
+    expect((await sync(token, { since: 0 })).body.notes[0].data).toBeNull();
+  });
+
+  it('keeps accounts apart and rejects bad requests', async () => {
+    await sync('token-account-one', { since: 0, notes: [note('a', 1)] });
+    expect((await sync('token-account-two', { since: 0 })).body.notes).toEqual([]);
+    expect((await sync('short', { since: 0 })).status).toBe(401);
+    expect((await sync('token-malformed', { since: 0, notes: [{ id: 'a', updatedAt: 'soon', data: null }] })).status).toBe(400);
+  });
+});
+
+describe('sync engine', () => {
+  it('queues changes while offline and sends them once back online', async () => {
+    const token = 'token-offline-queue';
+    const connection = { onLine: true };
+    vi.stubGlobal('navigator', connection);
+    vi.stubGlobal('window', new EventTarget());
+
+    const received: NoteSyncRecord[] = [];
+    const engine = createSyncEngine({
+      getLocalData: () => ({ notes: [], folders: [] }),
+      onRemoteChanges: async notes => { received.push(...notes); }
+    });
+    let state: SyncState | undefined;
+    engine.subscribe(next => { state = next; });
+
+    engine.configure({ enabled: true, serverUrl: `${baseUrl}/`, token });
+    await vi.waitFor(() => expect(state).toMatchObject({ status: 'idle' }));
+
+    connection.onLine = false;
+    window.dispatchEvent(new Event('offline'));
+    const local: Note = { id: 'local', title: 'Local', content: '', folderIds: [], tags: [], createdAt: 1, updatedAt: 1 };
+    engine.enqueue({ type: 'notesChanged', notes: [local] });
+    engine.enqueue({ type: 'notesRemoved', ids: ['gone'] });
+    await vi.waitFor(() => expect(state).toMatchObject({ status: 'offline', pending: 2 }));
+
+    // Another device syncs meanwhile
+    await sync(token, { since: 0, notes: [note('remote', 1)] });
+
+    connection.onLine = true;
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => expect(state).toMatchObject({ status: 'idle', pending: 0 }));
+    engine.stop();
+    vi.unstubAllGlobals();
+
+    expect(queue.size).toBe(0);
+    expect(meta.get('syncRev')).toBe(3);
+    expect(received.map(r => r.id)).toEqual(['remote']);
+    const stored = (await sync(token, { since: 0 })).body.notes;
+    expect(stored).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'local', data: expect.objectContaining({ title: 'Local' }) }),
+      expect.objectContaining({ id: 'gone', data: null })
+    ]));
+  });
+});
@@ -0,0 +1,38 @@
+import { Note, AIProviderId } from '../types';
+
+export interface AIAnalysisResult {
+  title: string;
+  summary: string;
+  tags: string[];
+}
+
+// Every provider resolves to null instead of throwing, so callers only need one failure path
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  isConfigured: () => boolean;
+  analyze: (content: string) => Promise<AIAnalysisResult | null>;
+  summarize: (content: string) => Promise<string | null>;
+  embed: (text: string) => Promise<number[] | null>;
+}
+
+// Shared by the hosted providers so they ask for the same thing
+export const ANALYSIS_PROMPT = (content: string) =>
+  `Analyze the following note text and provide metadata: "${content.substring(0, 5000)}"`;
+
+export const SUMMARY_PROMPT = (content: string) =>
+  `Summarize the following note in at most 20 words. Reply with the summary only: "${content.substring(0, 5000)}"`;
+
+// Turns an analysis result into note changes: only fills an empty title (the
+// patch has no title otherwise), and offers tags the note doesn't already have
+// as suggestions rather than applying them.
+export const buildAnalysisPatch = (note: Note, result: AIAnalysisResult): Partial<Note> => {
+  const suggestedTags = [...new Set(result.tags.map(t => t.trim().replace(/^#/, '').toLowerCase()))]
+    .filter(t => t && !note.tags.includes(t));
+
+  return {
+    ...(note.title.trim() ? {} : { title: result.title.trim() }),
+    summary: result.summary.trim(),
+    suggestedTags
+  };
+};
@@ -0,0 +1,27 @@
+import { AppSettings, AIProviderId } from '../types';
+import { AIProvider } from './aiProvider';
+import { geminiProvider } from './geminiService';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { heuristicProvider } from './heuristicProvider';
+
+export const AI_PROVIDER_OPTIONS: { id: AIProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: 'Google Gemini, requires GEMINI_API_KEY' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'Any /v1 chat endpoint, e.g. llama.cpp or Ollama' },
+  { id: 'heuristic', label: 'Offline', description: 'Keyword extraction on this device, no network' }
+];
+
+export const getAIProvider = (settings: AppSettings): AIProvider => {
+  switch (settings.aiProvider) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.openAIBaseUrl,
+        model: settings.openAIModel,
+        apiKey: settings.openAIApiKey
+      });
+    case 'heuristic':
+      return heuristicProvider;
+    case 'gemini':
+    default:
+      return geminiProvider;
+  }
+};
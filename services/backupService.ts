@@ -0,0 +1,170 @@
+import { Note, Folder, Theme } from '../types';
+import { migrateNote } from './noteRepository';
+
+// Bump when the archive layout changes; older archives stay importable
+export const BACKUP_SCHEMA_VERSION = 1;
+const BACKUP_FORMAT = 'sanchita-backup';
+
+const THEMES: Theme[] = ['light', 'dark', 'black', 'system'];
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  theme: Theme;
+  notes: Note[];
+  folders: Folder[];
+}
+
+// What to do when an imported note has the same id as an existing one
+export type ConflictPolicy = 'skip' | 'overwrite' | 'keepBoth';
+
+export interface BackupPreview {
+  notes: number;
+  trashed: number;
+  folders: number;
+  conflicts: number;
+}
+
+export interface ImportResult {
+  notes: Note[]; // Notes to write, already resolved against the policy
+  folders: Folder[];
+  added: number;
+  overwritten: number;
+  skipped: number;
+  duplicated: number;
+}
+
+export const createBackup = (notes: Note[], folders: Folder[], theme: Theme, includeTrash: boolean): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: Date.now(),
+  theme,
+  notes: includeTrash ? notes : notes.filter(n => !n.isDeleted),
+  folders
+});
+
+export const downloadFile = (data: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Let the download start before the URL is released
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const backupFileName = (backup: BackupArchive) =>
+  `sanchita-backup-${new Date(backup.exportedAt).toISOString().slice(0, 10)}.json`;
+
+export const serializeBackup = (backup: BackupArchive) => JSON.stringify(backup, null, 2);
+
+export const downloadBackup = (backup: BackupArchive) => {
+  downloadFile(serializeBackup(backup), backupFileName(backup), 'application/json');
+};
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const validateNote = (raw: any, index: number): string | null => {
+  if (!raw || typeof raw !== 'object') return `Note ${index + 1} is not an object`;
+  if (typeof raw.id !== 'string' || !raw.id) return `Note ${index + 1} has no id`;
+  if (raw.title !== undefined && typeof raw.title !== 'string') return `Note ${index + 1} has an invalid title`;
+  if (raw.content !== undefined && typeof raw.content !== 'string') return `Note ${index + 1} has invalid content`;
+  if (raw.tags !== undefined && !isStringArray(raw.tags)) return `Note ${index + 1} has invalid tags`;
+  if (raw.folderIds !== undefined && !isStringArray(raw.folderIds)) return `Note ${index + 1} has invalid folders`;
+  return null;
+};
+
+const validateFolder = (raw: any, index: number): string | null => {
+  if (!raw || typeof raw !== 'object') return `Folder ${index + 1} is not an object`;
+  if (typeof raw.id !== 'string' || !raw.id) return `Folder ${index + 1} has no id`;
+  if (typeof raw.name !== 'string') return `Folder ${index + 1} has no name`;
+  return null;
+};
+
+// Validates an archive and normalizes its notes through the same migration the
+// local store uses, so backups of legacy single-folder notes import cleanly.
+export const parseBackup = (text: string): { backup: BackupArchive | null; error: string | null } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { backup: null, error: 'File is not valid JSON' };
+  }
+
+  if (!raw || raw.format !== BACKUP_FORMAT) return { backup: null, error: 'Not a Sanchita backup file' };
+  if (typeof raw.schemaVersion !== 'number') return { backup: null, error: 'Backup has no schema version' };
+  if (raw.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    return { backup: null, error: `Backup was made by a newer version (schema ${raw.schemaVersion})` };
+  }
+  if (!Array.isArray(raw.notes) || !Array.isArray(raw.folders)) return { backup: null, error: 'Backup is missing notes or folders' };
+
+  for (let i = 0; i < raw.notes.length; i++) {
+    const error = validateNote(raw.notes[i], i);
+    if (error) return { backup: null, error };
+  }
+  for (let i = 0; i < raw.folders.length; i++) {
+    const error = validateFolder(raw.folders[i], i);
+    if (error) return { backup: null, error };
+  }
+
+  const now = Date.now();
+  const notes = raw.notes.map((n: any) => migrateNote({
+    ...n,
+    title: n.title || '',
+    content: n.content || '',
+    createdAt: typeof n.createdAt === 'number' ? n.createdAt : now,
+    updatedAt: typeof n.updatedAt === 'number' ? n.updatedAt : now
+  }));
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      schemaVersion: raw.schemaVersion,
+      exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : now,
+      theme: THEMES.includes(raw.theme) ? raw.theme : 'system',
+      notes,
+      folders: raw.folders
+    },
+    error: null
+  };
+};
+
+export const previewBackup = (backup: BackupArchive, existing: Note[]): BackupPreview => {
+  const existingIds = new Set(existing.map(n => n.id));
+  return {
+    notes: backup.notes.filter(n => !n.isDeleted).length,
+    trashed: backup.notes.filter(n => n.isDeleted).length,
+    folders: backup.folders.length,
+    conflicts: backup.notes.filter(n => existingIds.has(n.id)).length
+  };
+};
+
+// Folders are matched by id too, but never duplicated: a copy would split the
+// membership of notes that already point at the original.
+export const resolveImport = (backup: BackupArchive, existingNotes: Note[], existingFolders: Folder[], policy: ConflictPolicy): ImportResult => {
+  const existingIds = new Set(existingNotes.map(n => n.id));
+  const result: ImportResult = { notes: [], folders: [], added: 0, overwritten: 0, skipped: 0, duplicated: 0 };
+
+  backup.notes.forEach(note => {
+    if (!existingIds.has(note.id)) {
+      result.notes.push(note);
+      result.added++;
+    } else if (policy === 'overwrite') {
+      result.notes.push(note);
+      result.overwritten++;
+    } else if (policy === 'keepBoth') {
+      result.notes.push({ ...note, id: crypto.randomUUID(), title: note.title ? `${note.title} (imported)` : note.title });
+      result.duplicated++;
+    } else {
+      result.skipped++;
+    }
+  });
+
+  const existingFolderIds = new Set(existingFolders.map(f => f.id));
+  result.folders = backup.folders.filter(f => policy === 'overwrite' || !existingFolderIds.has(f.id));
+
+  return result;
+};
@@ -0,0 +1,45 @@
+import { Note } from '../types';
+
+// Ids from the anchor to `id`, inclusive, in the order shown. Falls back to
+// just `id` when the anchor is no longer visible.
+export const selectRange = (orderedIds: string[], anchorId: string | null, id: string) => {
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const to = orderedIds.indexOf(id);
+  if (from < 0 || to < 0) return [id];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
+
+export const addTagToNote = (note: Note, tag: string): Note =>
+  note.tags.includes(tag) ? note : { ...note, tags: [...note.tags, tag] };
+
+export const addFolderToNote = (note: Note, folderId: string): Note =>
+  note.folderIds.includes(folderId) ? note : { ...note, folderIds: [...note.folderIds, folderId] };
+
+export const removeFolderFromNote = (note: Note, folderId: string): Note =>
+  note.folderIds.includes(folderId) ? { ...note, folderIds: note.folderIds.filter(id => id !== folderId) } : note;
+
+// How many of `notes` have each value of a list field, for the all/some/none
+// state of a bulk picker
+export const countMembership = (notes: Note[], field: 'tags' | 'folderIds') => {
+  const counts = new Map<string, number>();
+  notes.forEach(n => n[field].forEach(value => counts.set(value, (counts.get(value) || 0) + 1)));
+  return counts;
+};
+
+// Oldest first. The first titled note names the result; the other titles
+// become headings.
+export const mergeNoteContents = (notes: Note[]): Pick<Note, 'title' | 'content' | 'tags' | 'folderIds'> => {
+  const ordered = [...notes].sort((a, b) => a.createdAt - b.createdAt);
+  const titled = ordered.find(n => n.title.trim());
+  const title = titled?.title || '';
+  const sections = ordered.map(n => {
+    const heading = n !== titled && n.title.trim() ? `## ${n.title}\n\n` : '';
+    return `${heading}${n.content.trim()}`;
+  });
+  return {
+    title,
+    content: sections.filter(Boolean).join('\n\n---\n\n'),
+    tags: [...new Set(ordered.flatMap(n => n.tags))],
+    folderIds: [...new Set(ordered.flatMap(n => n.folderIds))]
+  };
+};
@@ -0,0 +1,60 @@
+import { Note } from '../types';
+import { parseMarkdown, Block, InlineNode } from './markdown';
+
+export interface ChecklistItem {
+  noteId: string;
+  line: number;
+  text: string;
+  checked: boolean;
+}
+
+// Optional blockquote markers, then the list bullet and the checkbox
+const TASK_MARKER = /^(\s*(?:>\s?)*\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/;
+
+// Flips "- [ ]" <-> "- [x]" on one source line, leaving everything else untouched
+export const toggleTaskLine = (content: string, line: number): string => {
+  const lines = content.split('\n');
+  const match = lines[line]?.match(TASK_MARKER);
+  if (!match) return content;
+  const checked = match[2] !== ' ';
+  lines[line] = lines[line].replace(TASK_MARKER, `${match[1]}[${checked ? ' ' : 'x'}]`);
+  return lines.join('\n');
+};
+
+const inlineText = (nodes: InlineNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+    case 'code':
+      return node.text;
+    case 'tag':
+      return `#${node.name}`;
+    case 'folder':
+      return `@${node.name}`;
+    case 'wikilink':
+      return node.label;
+    case 'break':
+      return ' ';
+    default:
+      return inlineText(node.children);
+  }
+}).join('');
+
+// Uses the Markdown parser so checkboxes inside code blocks are ignored
+export const extractChecklistItems = (note: Note): ChecklistItem[] => {
+  if (!note.content.includes('[')) return [];
+  const items: ChecklistItem[] = [];
+
+  const walk = (blocks: Block[]) => blocks.forEach(block => {
+    if (block.type === 'blockquote') walk(block.blocks);
+    if (block.type !== 'list') return;
+    block.items.forEach(item => {
+      if (item.checked !== null) {
+        items.push({ noteId: note.id, line: item.line, text: inlineText(item.children).trim(), checked: item.checked });
+      }
+      walk(item.blocks);
+    });
+  });
+
+  walk(parseMarkdown(note.content));
+  return items;
+};
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// How long the snackbar offers Undo, and how long permanent deletes are held
+export const UNDO_WINDOW_MS = 6000;
+const HISTORY_LIMIT = 50;
+
+// A reversible change. `perform` applies it and returns the undo, which
+// returns false when it can no longer be undone; redo performs it again.
+export interface Command {
+  label: string;
+  perform: () => () => boolean | void;
+  showSnackbar?: boolean; // Destructive actions offer Undo straight away
+}
+
+interface HistoryEntry {
+  command: Command;
+  undo: () => boolean | void;
+}
+
+export interface HistoryToast {
+  message: string;
+  action: 'undo' | 'redo' | null;
+}
+
+// Shortcuts are left to the browser while typing
+const isTyping = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+};
+
+export const useCommandHistory = () => {
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<Command[]>([]);
+  const [toast, setToast] = useState<HistoryToast | null>(null);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const run = useCallback((command: Command) => {
+    const undo = command.perform();
+    pastRef.current = [...pastRef.current, { command, undo }].slice(-HISTORY_LIMIT);
+    futureRef.current = [];
+    if (command.showSnackbar) setToast({ message: command.label, action: 'undo' });
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current.pop();
+    if (!entry) return;
+    if (entry.undo() === false) {
+      setToast({ message: `Can't undo "${entry.command.label}" any more`, action: null });
+      return;
+    }
+    futureRef.current.push(entry.command);
+    setToast({ message: `Undid: ${entry.command.label}`, action: 'redo' });
+  }, []);
+
+  const redo = useCallback(() => {
+    const command = futureRef.current.pop();
+    if (!command) return;
+    pastRef.current.push({ command, undo: command.perform() });
+    setToast({ message: command.label, action: 'undo' });
+  }, []);
+
+  // Ctrl/Cmd+Z walks back, Ctrl/Cmd+Shift+Z or Ctrl+Y forward
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return { run, undo, redo, toast, dismissToast: () => setToast(null) };
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { NoteCrdt, createNoteCrdt, updateNoteCrdt, mergeNoteCrdt, materializeNoteCrdt, hasUnseenEdits } from './crdt';
+
+type Fields = { content: string; tags: string[]; folderIds: string[] };
+
+const base: Fields = { content: 'hello world', tags: ['x'], folderIds: ['f1'] };
+
+const edit = (state: NoteCrdt, changes: Partial<Fields>, replica: string) =>
+  updateNoteCrdt(state, { ...materializeNoteCrdt(state), ...changes }, replica);
+
+// Merges in both orders and again with each side, checking the state converges
+const converge = (a: NoteCrdt, b: NoteCrdt) => {
+  const ab = mergeNoteCrdt(a, b);
+  expect(mergeNoteCrdt(b, a)).toEqual(ab);
+  expect(mergeNoteCrdt(ab, a)).toEqual(ab);
+  expect(mergeNoteCrdt(ab, b)).toEqual(ab);
+  expect(mergeNoteCrdt(ab, ab)).toEqual(ab);
+  return materializeNoteCrdt(ab);
+};
+
+describe('createNoteCrdt', () => {
+  it('gives identical state for identical content, so merging adds nothing', () => {
+    const a = createNoteCrdt(base);
+    const b = createNoteCrdt({ ...base });
+    expect(mergeNoteCrdt(a, b)).toEqual(a);
+    expect(materializeNoteCrdt(a)).toEqual(base);
+  });
+});
+
+describe('mergeNoteCrdt', () => {
+  it('keeps both of two inserts at the same position', () => {
+    const start = createNoteCrdt(base);
+    const a = edit(start, { content: 'hello big world' }, 'A');
+    const b = edit(start, { content: 'hello new world' }, 'B');
+    expect(converge(a, b).content).toBe('hello new big world');
+  });
+
+  it('keeps an edit made inside text that was concurrently deleted', () => {
+    const start = createNoteCrdt(base);
+    const a = edit(start, { content: 'hello' }, 'A');
+    const b = edit(start, { content: 'hello worlds' }, 'B');
+    expect(converge(a, b).content).toBe('hellos');
+  });
+
+  it('merges edits to different parts of the text', () => {
+    const start = createNoteCrdt(base);
+    const a = edit(start, { content: 'Hello world' }, 'A');
+    const b = edit(start, { content: 'hello world!' }, 'B');
+    expect(converge(a, b).content).toBe('Hello world!');
+  });
+
+  it('applies a tag removal and a tag addition from different replicas', () => {
+    const start = createNoteCrdt(base);
+    const a = edit(start, { tags: [] }, 'A');
+    const b = edit(start, { tags: ['x', 'y'] }, 'B');
+    expect(converge(a, b).tags).toEqual(['y']);
+  });
+
+  it('lets the later of an add and a remove of the same tag win', () => {
+    const start = createNoteCrdt(base);
+    const removed = edit(start, { tags: [] }, 'A');
+    const readded = edit(edit(start, { tags: [] }, 'B'), { tags: ['x'] }, 'B');
+    expect(converge(removed, readded).tags).toEqual(['x']);
+  });
+
+  it('applies folder additions and removals from different replicas', () => {
+    const start = createNoteCrdt(base);
+    const a = edit(start, { folderIds: ['f1', 'f2'] }, 'A');
+    const b = edit(start, { folderIds: [] }, 'B');
+    expect(converge(a, b).folderIds).toEqual(['f2']);
+  });
+
+  it('advances the clock past every merged edit', () => {
+    const start = createNoteCrdt(base);
+    const a = edit(start, { content: 'hello there world' }, 'A');
+    const merged = mergeNoteCrdt(start, a);
+    expect(merged.clock).toBe(a.clock);
+    const next = edit(merged, { content: 'hello there, world' }, 'B');
+    expect(next.clock).toBeGreaterThan(a.clock);
+  });
+});
+
+describe('hasUnseenEdits', () => {
+  it('is true only for the side holding edits the other lacks', () => {
+    const start = createNoteCrdt(base);
+    const a = edit(start, { tags: ['x', 'z'] }, 'A');
+    expect(hasUnseenEdits(a, start)).toBe(true);
+    expect(hasUnseenEdits(start, a)).toBe(false);
+    expect(hasUnseenEdits(a, mergeNoteCrdt(a, start))).toBe(false);
+  });
+});
@@ -0,0 +1,294 @@
+import { Note } from '../types';
+import { diffWords, DiffPart } from './textDiff';
+
+// State-based CRDTs behind a note's content, tags and folderIds, so edits made
+// concurrently on different devices or tabs merge instead of overwriting each
+// other. The UI keeps reading plain `Note` fields; this state travels next to
+// the note and is only used to merge.
+//
+// Text is an RGA sequence: every character has a unique stamp and remembers the
+// character it was typed after (its origin). Document order is a depth-first
+// walk of that origin tree with siblings newest first, which depends only on
+// the set of characters, never on the order merges happen in.
+// Tags and folders are last-writer-wins element sets.
+
+// Lamport counter and replica id; replicas break ties between equal counters
+export type Stamp = [number, string];
+
+interface TextChar {
+  id: Stamp;
+  origin: Stamp | null; // null for characters typed at the very start
+  value: string;
+  deleted: boolean;
+}
+
+// Serialized run of consecutive characters from one replica, each typed after
+// the previous one: [replica, firstCounter, origin, text, deleted]
+export type TextRun = [string, number, Stamp | null, string, 0 | 1];
+
+export interface SetEntry {
+  value: string;
+  added: Stamp;
+  removed: Stamp | null;
+}
+
+export interface NoteCrdt {
+  clock: number; // Highest counter in the state
+  text: TextRun[];
+  tags: SetEntry[];
+  folderIds: SetEntry[];
+}
+
+const compareStamps = (a: Stamp, b: Stamp) =>
+  a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+const stampKey = (s: Stamp | null) => (s ? `${s[0]}@${s[1]}` : '');
+
+// --- Text ---
+
+const expandRuns = (runs: TextRun[]): TextChar[] => {
+  const chars: TextChar[] = [];
+  runs.forEach(([replica, counter, origin, text, deleted]) => {
+    for (let i = 0; i < text.length; i++) {
+      chars.push({
+        id: [counter + i, replica],
+        origin: i === 0 ? origin : [counter + i - 1, replica],
+        value: text[i],
+        deleted: deleted === 1
+      });
+    }
+  });
+  return chars;
+};
+
+const compressChars = (chars: TextChar[]): TextRun[] => {
+  const runs: TextRun[] = [];
+  chars.forEach(c => {
+    const last = runs[runs.length - 1];
+    const continues = last &&
+      last[0] === c.id[1] &&
+      last[1] + last[3].length === c.id[0] &&
+      c.origin !== null && c.origin[1] === c.id[1] && c.origin[0] === c.id[0] - 1 &&
+      last[4] === (c.deleted ? 1 : 0);
+    if (continues) last[3] += c.value;
+    else runs.push([c.id[1], c.id[0], c.origin, c.value, c.deleted ? 1 : 0]);
+  });
+  return runs;
+};
+
+// Canonical order: depth-first over the origin tree, newest sibling first
+const orderChars = (chars: TextChar[]): TextChar[] => {
+  const children = new Map<string, TextChar[]>();
+  chars.forEach(c => {
+    const key = stampKey(c.origin);
+    if (!children.has(key)) children.set(key, []);
+    children.get(key)!.push(c);
+  });
+  children.forEach(list => list.sort((a, b) => compareStamps(b.id, a.id)));
+
+  const ordered: TextChar[] = [];
+  const stack = [...(children.get('') || [])].reverse();
+  while (stack.length > 0) {
+    const c = stack.pop()!;
+    ordered.push(c);
+    const kids = children.get(stampKey(c.id));
+    if (kids) for (let i = kids.length - 1; i >= 0; i--) stack.push(kids[i]);
+  }
+  return ordered;
+};
+
+const textValue = (chars: TextChar[]) => chars.filter(c => !c.deleted).map(c => c.value).join('');
+
+// Word diffs replace whole words; keep the characters a replaced word shares
+// with its replacement so concurrent edits to the same word both survive
+const refineParts = (parts: DiffPart[]): DiffPart[] => {
+  const refined: DiffPart[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const next = parts[i + 1];
+    if (part.op !== 'delete' || next?.op !== 'insert') {
+      refined.push(part);
+      continue;
+    }
+    const removed = part.text;
+    const added = next.text;
+    let prefix = 0;
+    while (prefix < removed.length && prefix < added.length && removed[prefix] === added[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < removed.length - prefix &&
+      suffix < added.length - prefix &&
+      removed[removed.length - 1 - suffix] === added[added.length - 1 - suffix]
+    ) suffix++;
+    if (prefix > 0) refined.push({ op: 'equal', text: removed.slice(0, prefix) });
+    if (removed.length - suffix > prefix) refined.push({ op: 'delete', text: removed.slice(prefix, removed.length - suffix) });
+    if (added.length - suffix > prefix) refined.push({ op: 'insert', text: added.slice(prefix, added.length - suffix) });
+    if (suffix > 0) refined.push({ op: 'equal', text: removed.slice(removed.length - suffix) });
+    i++;
+  }
+  return refined;
+};
+
+// Turns a plain before/after edit into character inserts and deletes
+const applyTextEdit = (chars: TextChar[], next: string, replica: string, clock: number) => {
+  const out: TextChar[] = [];
+  let index = 0;
+  // Copies tombstones and `count` visible characters, optionally deleting them
+  const advance = (count: number, remove: boolean) => {
+    while (count > 0 && index < chars.length) {
+      const c = chars[index++];
+      if (c.deleted) {
+        out.push(c);
+        continue;
+      }
+      out.push(remove ? { ...c, deleted: true } : c);
+      count--;
+    }
+  };
+
+  refineParts(diffWords(textValue(chars), next)).forEach(part => {
+    if (part.op === 'equal') advance(part.text.length, false);
+    else if (part.op === 'delete') advance(part.text.length, true);
+    else {
+      // A new character becomes the newest child of whatever precedes it,
+      // which the canonical order places right after it
+      for (let i = 0; i < part.text.length; i++) {
+        const origin = out.length > 0 ? out[out.length - 1].id : null;
+        out.push({ id: [++clock, replica], origin, value: part.text[i], deleted: false });
+      }
+    }
+  });
+  while (index < chars.length) out.push(chars[index++]);
+  return { chars: out, clock };
+};
+
+const mergeChars = (a: TextChar[], b: TextChar[]): TextChar[] => {
+  const byId = new Map<string, TextChar>();
+  [...a, ...b].forEach(c => {
+    const key = stampKey(c.id);
+    const existing = byId.get(key);
+    // Deletion is permanent once seen on either side
+    byId.set(key, existing ? { ...existing, deleted: existing.deleted || c.deleted } : c);
+  });
+  return orderChars([...byId.values()]);
+};
+
+// --- Sets ---
+
+const setValue = (entries: SetEntry[]) =>
+  entries
+    .filter(e => !e.removed || compareStamps(e.added, e.removed) > 0)
+    .sort((a, b) => compareStamps(a.added, b.added) || (a.value < b.value ? -1 : 1))
+    .map(e => e.value);
+
+const applySetEdit = (entries: SetEntry[], next: string[], replica: string, clock: number) => {
+  const current = new Set(setValue(entries));
+  const wanted = new Set(next);
+  const byValue = new Map(entries.map(e => [e.value, e]));
+
+  current.forEach(value => {
+    if (!wanted.has(value)) byValue.set(value, { ...byValue.get(value)!, removed: [++clock, replica] });
+  });
+  next.forEach(value => {
+    if (current.has(value)) return;
+    const existing = byValue.get(value);
+    byValue.set(value, { value, added: [++clock, replica], removed: existing?.removed ?? null });
+  });
+  return { entries: [...byValue.values()], clock };
+};
+
+const maxStamp = (a: Stamp | null, b: Stamp | null) =>
+  !a ? b : !b ? a : compareStamps(a, b) >= 0 ? a : b;
+
+const mergeSets = (a: SetEntry[], b: SetEntry[]): SetEntry[] => {
+  const byValue = new Map<string, SetEntry>();
+  [...a, ...b].forEach(e => {
+    const existing = byValue.get(e.value);
+    byValue.set(e.value, existing
+      ? { value: e.value, added: maxStamp(existing.added, e.added)!, removed: maxStamp(existing.removed, e.removed) }
+      : e);
+  });
+  return [...byValue.values()].sort((x, y) => (x.value < y.value ? -1 : x.value > y.value ? 1 : 0));
+};
+
+// --- Notes ---
+
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const maxCounter = (state: Pick<NoteCrdt, 'text' | 'tags' | 'folderIds'>) => {
+  let max = 0;
+  state.text.forEach(([, counter, , text]) => { max = Math.max(max, counter + text.length - 1); });
+  [...state.tags, ...state.folderIds].forEach(e => {
+    max = Math.max(max, e.added[0], e.removed ? e.removed[0] : 0);
+  });
+  return max;
+};
+
+// Initial state for a note that has no history yet. It is derived from the
+// content alone, so two devices holding the same text start from identical
+// characters and merging them doesn't duplicate anything.
+export const createNoteCrdt = (note: Pick<Note, 'content' | 'tags' | 'folderIds'>): NoteCrdt => {
+  const replica = `init-${hashString(note.content)}`;
+  const text: TextRun[] = note.content ? [[replica, 1, null, note.content, 0]] : [];
+  const base: Stamp = [0, 'init'];
+  const state = {
+    text,
+    tags: note.tags.map(value => ({ value, added: base, removed: null })),
+    folderIds: note.folderIds.map(value => ({ value, added: base, removed: null }))
+  };
+  return { clock: maxCounter(state), ...state };
+};
+
+export const materializeNoteCrdt = (state: NoteCrdt) => ({
+  content: textValue(expandRuns(state.text)),
+  tags: setValue(state.tags),
+  folderIds: setValue(state.folderIds)
+});
+
+// Records a local edit: the state is moved to the note's current fields
+export const updateNoteCrdt = (state: NoteCrdt, note: Pick<Note, 'content' | 'tags' | 'folderIds'>, replica: string): NoteCrdt => {
+  const current = materializeNoteCrdt(state);
+  let clock = state.clock;
+  let text = state.text;
+  let tags = state.tags;
+  let folderIds = state.folderIds;
+
+  if (current.content !== note.content) {
+    const edit = applyTextEdit(expandRuns(state.text), note.content, replica, clock);
+    text = compressChars(edit.chars);
+    clock = edit.clock;
+  }
+  if (current.tags.join('\n') !== note.tags.join('\n')) {
+    const edit = applySetEdit(tags, note.tags, replica, clock);
+    tags = edit.entries;
+    clock = edit.clock;
+  }
+  if (current.folderIds.join('\n') !== note.folderIds.join('\n')) {
+    const edit = applySetEdit(folderIds, note.folderIds, replica, clock);
+    folderIds = edit.entries;
+    clock = edit.clock;
+  }
+  return { clock, text, tags, folderIds };
+};
+
+// Commutative, associative and idempotent: any replicas that have seen the
+// same edits end up with the same state
+export const mergeNoteCrdt = (a: NoteCrdt, b: NoteCrdt): NoteCrdt => {
+  const merged = {
+    text: compressChars(mergeChars(expandRuns(a.text), expandRuns(b.text))),
+    tags: mergeSets(a.tags, b.tags),
+    folderIds: mergeSets(a.folderIds, b.folderIds)
+  };
+  return { clock: Math.max(a.clock, b.clock, maxCounter(merged)), ...merged };
+};
+
+// Whether `state` holds edits that `other` hasn't seen
+export const hasUnseenEdits = (state: NoteCrdt, other: NoteCrdt) =>
+  JSON.stringify(mergeNoteCrdt(state, other)) !== JSON.stringify(mergeNoteCrdt(other, other));
@@ -0,0 +1,51 @@
+// Passphrase-based encryption on WebCrypto: PBKDF2-SHA-256 stretches the
+// passphrase into an AES-256-GCM key, and every payload gets a fresh random IV.
+// GCM authenticates too, so a wrong key or tampered data fails to decrypt.
+
+export const PBKDF2_ITERATIONS = 600_000;
+
+// Base64 strings so payloads fit IndexedDB, localStorage and JSON files alike
+export interface SealedPayload {
+  iv: string;
+  data: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large exports don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const randomSalt = () => toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+export const deriveKey = async (passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Rejects when the key is wrong or the payload was altered
+export const decryptBytes = async (key: CryptoKey, payload: SealedPayload): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data)));
+
+export const encryptJson = (key: CryptoKey, value: unknown) =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, payload: SealedPayload): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, payload)));
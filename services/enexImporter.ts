@@ -0,0 +1,162 @@
+import { ImportedNote, SourceResult, normalizeTag } from './noteImport';
+
+// Evernote exports one notebook per .enex file, so the file name is used as the
+// notebook unless a note carries its own. Note bodies are ENML, an XHTML subset,
+// converted here to Markdown. Attachments (en-media) are not imported.
+
+// ENEX timestamps look like 20231231T235959Z
+const parseEnexDate = (value: string | null | undefined) => {
+  const m = value?.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return m ? Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) : undefined;
+};
+
+const childText = (note: Element, tag: string) => {
+  const el = Array.from(note.children).find(c => c.tagName === tag);
+  return el?.textContent ?? null;
+};
+
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'table', 'tr', 'center']);
+
+// Placeholder for "start a new line unless already at one", resolved after the walk
+const LINE_START = '\u0000';
+
+interface ListContext {
+  ordered: boolean;
+  index: number;
+  depth: number;
+}
+
+const enmlToMarkdown = (enml: string): string => {
+  // ENML carries an XML prolog and DOCTYPE; the lenient HTML parser ignores both
+  const doc = new DOMParser().parseFromString(enml, 'text/html');
+  const root = doc.querySelector('en-note') || doc.body;
+
+  const inline = (node: Node, list: ListContext | null): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      // Source indentation between block elements is not content
+      return /^\s*\n\s*$/.test(text) ? '' : text.replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    const children = () => Array.from(el.childNodes).map(c => inline(c, list)).join('');
+    // For elements that must stay on one line (or one prefixed block)
+    const flatChildren = () => children().replaceAll(LINE_START, '');
+
+    switch (tag) {
+      case 'br':
+        return '\n';
+      case 'b':
+      case 'strong': {
+        const text = children();
+        return text.trim() ? `**${text.trim()}**` : text;
+      }
+      case 'i':
+      case 'em': {
+        const text = children();
+        return text.trim() ? `*${text.trim()}*` : text;
+      }
+      case 's':
+      case 'strike':
+      case 'del':
+        return `~~${children().trim()}~~`;
+      case 'code':
+        return `\`${el.textContent || ''}\``;
+      case 'a': {
+        const href = el.getAttribute('href');
+        const text = children().trim();
+        return href && text && text !== href ? `[${text}](${href})` : text || href || '';
+      }
+      case 'en-todo':
+        return el.getAttribute('checked') === 'true' ? '[x] ' : '[ ] ';
+      case 'en-media':
+      case 'en-crypt':
+        return '';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return `\n\n${'#'.repeat(Number(tag[1]))} ${flatChildren().replace(/\s+/g, ' ').trim()}\n\n`;
+      case 'hr':
+        return '\n\n---\n\n';
+      case 'pre':
+        return `\n\n\`\`\`\n${(el.textContent || '').replace(/\n$/, '')}\n\`\`\`\n\n`;
+      case 'blockquote': {
+        const text = flatChildren().trim();
+        return `\n\n${text.split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+      }
+      case 'ul':
+      case 'ol': {
+        const context: ListContext = { ordered: tag === 'ol', index: 0, depth: list ? list.depth + 1 : 0 };
+        const items = Array.from(el.childNodes).map(c => inline(c, context)).join('');
+        return list ? `\n${items}` : `\n\n${items}\n\n`;
+      }
+      case 'li': {
+        const depth = list?.depth ?? 0;
+        const marker = list?.ordered ? `${++list.index}.` : '-';
+        const text = flatChildren().replace(/\n{2,}/g, '\n').trim();
+        return `${'  '.repeat(depth)}${marker} ${text}\n`;
+      }
+      case 'td':
+      case 'th':
+        return `${flatChildren().replace(/\s+/g, ' ').trim()} | `;
+      default: {
+        const text = children();
+        if (!BLOCK_TAGS.has(tag)) return text;
+        // Evernote wraps every line in a div; a lone to-do becomes a task item
+        const trimmed = text.trim();
+        if (/^\[( |x)\] /.test(trimmed) && !list) return `${LINE_START}- ${trimmed}\n`;
+        if (tag === 'tr') return `${LINE_START}${trimmed.replace(/ \|$/, '')}\n`;
+        return tag === 'p' ? `\n\n${text}\n\n` : `${LINE_START}${text}\n`;
+      }
+    }
+  };
+
+  return inline(root, null)
+    .replace(new RegExp(`([^\\n])${LINE_START}`, 'g'), '$1\n')
+    .replaceAll(LINE_START, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+export const parseEnex = (text: string, notebook: string): SourceResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'en-export') {
+    throw new Error('Not a valid ENEX file');
+  }
+
+  const notes: ImportedNote[] = [];
+  const skipped: string[] = [];
+  const failed: string[] = [];
+
+  Array.from(doc.getElementsByTagName('note')).forEach((note, index) => {
+    const title = (childText(note, 'title') || '').trim();
+    const label = title || `Note ${index + 1}`;
+    try {
+      const content = enmlToMarkdown(childText(note, 'content') || '');
+      if (!title && !content) {
+        skipped.push(`${label}: empty note`);
+        return;
+      }
+      const tags = Array.from(note.children)
+        .filter(c => c.tagName === 'tag')
+        .map(c => normalizeTag(c.textContent || ''))
+        .filter(Boolean);
+      const ownNotebook = childText(note, 'notebook')?.trim();
+
+      notes.push({
+        title,
+        content,
+        tags: [...new Set(tags)],
+        folderNames: ownNotebook ? [ownNotebook] : notebook ? [notebook] : [],
+        createdAt: parseEnexDate(childText(note, 'created')),
+        updatedAt: parseEnexDate(childText(note, 'updated')) ?? parseEnexDate(childText(note, 'created'))
+      });
+    } catch (e) {
+      console.error(`Failed to convert ENEX note "${label}"`, e);
+      failed.push(`${label}: could not convert content`);
+    }
+  });
+
+  if (notes.length === 0 && skipped.length === 0 && failed.length === 0) return { skip: 'No notes in file' };
+  return { notes, skipped, failed };
+};
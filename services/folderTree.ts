@@ -0,0 +1,131 @@
+import { Note, Folder } from '../types';
+
+// Helpers for nested folders. Each folder points at its parent; see
+// treeParents for how broken links from imports or sync are tolerated.
+
+export const PATH_SEPARATOR = '/';
+
+// Parent of each folder as the tree sees it. A parent that doesn't exist makes
+// a folder top level, and so does being part of a cycle, which keeps every
+// folder reachable.
+const treeParents = (folders: Folder[]) => {
+  const declared = new Map(folders.map(f => [f.id, f.parentId && f.parentId !== f.id ? f.parentId : undefined]));
+  const parents = new Map<string, string | undefined>();
+  folders.forEach(f => {
+    const parentId = declared.get(f.id);
+    const seen = new Set<string>();
+    let onCycle = false;
+    for (let current = parentId; current && declared.has(current) && !seen.has(current); current = declared.get(current)) {
+      if (current === f.id) {
+        onCycle = true;
+        break;
+      }
+      seen.add(current);
+    }
+    parents.set(f.id, parentId && declared.has(parentId) && !onCycle ? parentId : undefined);
+  });
+  return parents;
+};
+
+const ancestorIds = (parents: Map<string, string | undefined>, id: string) => {
+  const ids: string[] = [];
+  for (let current: string | undefined = id; current && !ids.includes(current); current = parents.get(current)) {
+    ids.unshift(current);
+  }
+  return ids;
+};
+
+// Root first, ending with the folder itself
+export const getAncestors = (folders: Folder[], id: string): Folder[] => {
+  const index = new Map(folders.map(f => [f.id, f]));
+  return ancestorIds(treeParents(folders), id).map(a => index.get(a)).filter((f): f is Folder => !!f);
+};
+
+export const getFolderPath = (folders: Folder[], id: string) =>
+  getAncestors(folders, id).map(f => f.name).join(PATH_SEPARATOR);
+
+export const getChildren = (folders: Folder[], parentId: string | null): Folder[] => {
+  const parents = treeParents(folders);
+  return folders.filter(f => (parents.get(f.id) ?? null) === parentId);
+};
+
+// The folder and everything below it
+export const getDescendantIds = (folders: Folder[], id: string): Set<string> => {
+  const children = new Map<string, string[]>();
+  treeParents(folders).forEach((parentId, folderId) => {
+    if (parentId) children.set(parentId, [...(children.get(parentId) || []), folderId]);
+  });
+  const result = new Set<string>();
+  const stack = [id];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (result.has(current)) continue;
+    result.add(current);
+    stack.push(...(children.get(current) || []));
+  }
+  return result;
+};
+
+// Depth-first rows for tree views; children of collapsed folders are left out
+export const flattenTree = (folders: Folder[], isExpanded: (id: string) => boolean) => {
+  const rows: { folder: Folder; depth: number; hasChildren: boolean }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    getChildren(folders, parentId).forEach(folder => {
+      const hasChildren = getChildren(folders, folder.id).length > 0;
+      rows.push({ folder, depth, hasChildren });
+      if (hasChildren && isExpanded(folder.id)) visit(folder.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return rows;
+};
+
+// Live notes per folder on their own (`own`) and including every descendant
+// (`total`). A note filed in both a folder and its subfolder counts once.
+export const countNotesByFolder = (notes: Note[], folders: Folder[]) => {
+  const own: Record<string, number> = {};
+  const total: Record<string, number> = {};
+  const live = notes.filter(n => !n.isDeleted);
+  live.forEach(n => n.folderIds.forEach(id => { own[id] = (own[id] || 0) + 1; }));
+
+  const parents = treeParents(folders);
+  live.forEach(n => {
+    const counted = new Set<string>();
+    n.folderIds.forEach(id => ancestorIds(parents, id).forEach(a => counted.add(a)));
+    counted.forEach(id => { total[id] = (total[id] || 0) + 1; });
+  });
+  return { own, total };
+};
+
+export const splitFolderPath = (path: string) =>
+  path.split(PATH_SEPARATOR).map(part => part.trim()).filter(Boolean);
+
+// Finds the folder at "parent/child", creating whatever part of the path is
+// missing. A bare name matches a folder of that name at any depth, shallowest
+// first, before a new top-level folder is made.
+export const resolveFolderPath = (
+  folders: Folder[],
+  path: string,
+  createFolder: (name: string, parentId?: string) => Folder
+): Folder | null => {
+  const parts = splitFolderPath(path);
+  const known = folders.filter(f => !f.query);
+  if (parts.length === 1) {
+    const parents = treeParents(known);
+    const match = known
+      .filter(f => f.name.toLowerCase() === parts[0].toLowerCase())
+      .sort((a, b) => ancestorIds(parents, a.id).length - ancestorIds(parents, b.id).length)[0];
+    if (match) return match;
+  }
+  let parent: Folder | null = null;
+  for (const name of parts) {
+    const siblings = getChildren(known, parent ? parent.id : null);
+    let next = siblings.find(f => f.name.toLowerCase() === name.toLowerCase());
+    if (!next) {
+      next = createFolder(name, parent?.id);
+      known.push(next);
+    }
+    parent = next;
+  }
+  return parent;
+};
@@ -1,20 +1,22 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { AIProvider, AIAnalysisResult, ANALYSIS_PROMPT, SUMMARY_PROMPT } from "./aiProvider";
 
-export interface AIAnalysisResult {
-  title: string;
-  summary: string;
-  tags: string[];
-}
+const MODEL = 'gemini-2.5-flash';
+const EMBEDDING_MODEL = 'text-embedding-004';
 
-export const analyzeNoteContent = async (content: string): Promise<AIAnalysisResult | null> => {
+const getClient = () => {
   if (!process.env.API_KEY) {
     console.warn("No API Key found for Gemini.");
     return null;
   }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+export const analyzeNoteContent = async (content: string): Promise<AIAnalysisResult | null> => {
+  const ai = getClient();
+  if (!ai) return null;
 
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
     const schema: Schema = {
       type: Type.OBJECT,
       properties: {
@@ -30,8 +32,8 @@ export const analyzeNoteContent = async (content: string): Promise<AIAnalysisRes
     };
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Analyze the following note text and provide metadata: "${content.substring(0, 5000)}"`, // Limit input context
+      model: MODEL,
+      contents: ANALYSIS_PROMPT(content), // Limit input context
       config: {
         responseMimeType: "application/json",
         responseSchema: schema,
@@ -50,3 +52,45 @@ export const analyzeNoteContent = async (content: string): Promise<AIAnalysisRes
     return null;
   }
 };
+
+const summarizeNoteContent = async (content: string): Promise<string | null> => {
+  const ai = getClient();
+  if (!ai) return null;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: SUMMARY_PROMPT(content),
+      config: { temperature: 0.3 }
+    });
+    return response.text?.trim() || null;
+  } catch (error) {
+    console.error("Gemini Summary Failed:", error);
+    return null;
+  }
+};
+
+const embedText = async (text: string): Promise<number[] | null> => {
+  const ai = getClient();
+  if (!ai) return null;
+
+  try {
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: text.substring(0, 5000)
+    });
+    return response.embeddings?.[0]?.values || null;
+  } catch (error) {
+    console.error("Gemini Embedding Failed:", error);
+    return null;
+  }
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  isConfigured: () => !!process.env.API_KEY,
+  analyze: analyzeNoteContent,
+  summarize: summarizeNoteContent,
+  embed: embedText
+};
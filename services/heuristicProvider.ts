@@ -0,0 +1,93 @@
+import { AIProvider, AIAnalysisResult } from './aiProvider';
+
+// Deterministic, network-free stand-in. Useful offline and for predictable results in development.
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+  'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'done', 'for',
+  'from', 'get', 'got', 'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'just', 'like', 'me', 'more', 'most', 'my', 'need', 'no', 'not', 'now', 'of',
+  'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'really', 'should', 'so', 'some', 'still',
+  'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'thing', 'things',
+  'this', 'those', 'to', 'too', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+const MAX_TAGS = 5;
+const MAX_SUMMARY_WORDS = 20;
+const MAX_TITLE_LENGTH = 60;
+const EMBEDDING_DIMENSIONS = 256;
+
+const tokenize = (text: string) =>
+  text.toLowerCase()
+    .replace(/[#@]/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(w => w.length > 2 && !STOP_WORDS.has(w) && !/^\d+$/.test(w));
+
+export const extractKeywords = (text: string, limit = MAX_TAGS): string[] => {
+  const counts = new Map<string, { count: number; first: number }>();
+  tokenize(text).forEach((word, index) => {
+    const entry = counts.get(word);
+    if (entry) entry.count++;
+    else counts.set(word, { count: 1, first: index });
+  });
+
+  // Frequency first, earliest occurrence breaks ties so the output is stable
+  return [...counts.entries()]
+    .sort((a, b) => b[1].count - a[1].count || a[1].first - b[1].first)
+    .slice(0, limit)
+    .map(([word]) => word);
+};
+
+const truncateWords = (text: string, maxWords: number) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  return words.length > maxWords ? `${words.slice(0, maxWords).join(' ')}…` : words.join(' ');
+};
+
+export const firstSentence = (text: string): string => {
+  // Drop markdown line markers (headings, quotes, bullets) before joining lines
+  const flattened = text.replace(/^[#>\-*\s]+/gm, '').replace(/\s+/g, ' ').trim();
+  const match = flattened.match(/^.*?[.!?](?=\s|$)/);
+  return truncateWords(match ? match[0] : flattened, MAX_SUMMARY_WORDS);
+};
+
+const deriveTitle = (text: string) => {
+  const firstLine = text.split('\n').map(l => l.replace(/^[#>\-*\s]+/, '').trim()).find(Boolean) || '';
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : firstLine;
+};
+
+// FNV-1a, used to hash words into embedding buckets
+const hashWord = (word: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Hashed bag-of-words vector, L2 normalized so cosine similarity is a plain dot product
+const embedText = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  tokenize(text).forEach(word => {
+    vector[hashWord(word) % EMBEDDING_DIMENSIONS] += 1;
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+};
+
+export const heuristicProvider: AIProvider = {
+  id: 'heuristic',
+  label: 'Offline',
+  isConfigured: () => true,
+  analyze: async (content: string): Promise<AIAnalysisResult | null> => {
+    if (!content.trim()) return null;
+    return {
+      title: deriveTitle(content),
+      summary: firstSentence(content),
+      tags: extractKeywords(content)
+    };
+  },
+  summarize: async (content: string) => content.trim() ? firstSentence(content) : null,
+  embed: async (text: string) => embedText(text)
+};
@@ -0,0 +1,51 @@
+import { SourceResult, normalizeTag } from './noteImport';
+
+// Google Keep Takeout writes one JSON file per note
+interface KeepNote {
+  title?: string;
+  textContent?: string;
+  listContent?: { text?: string; isChecked?: boolean }[];
+  labels?: { name?: string }[];
+  isTrashed?: boolean;
+  createdTimestampUsec?: number;
+  userEditedTimestampUsec?: number;
+}
+
+const fromUsec = (usec: number | undefined) =>
+  typeof usec === 'number' && usec > 0 ? Math.floor(usec / 1000) : undefined;
+
+export const parseKeepNote = (text: string): SourceResult => {
+  let raw: KeepNote & { format?: string };
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Not valid JSON');
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { skip: 'Not a Keep note' };
+  if (raw.format === 'sanchita-backup') return { skip: 'Backup file, use Import backup instead' };
+  if (raw.textContent === undefined && raw.listContent === undefined && raw.title === undefined) {
+    return { skip: 'Not a Keep note' };
+  }
+
+  // Checklist notes become Markdown task lists the Tasks view understands
+  const body = Array.isArray(raw.listContent)
+    ? raw.listContent.map(item => `- [${item.isChecked ? 'x' : ' '}] ${(item.text || '').replace(/\n/g, ' ')}`).join('\n')
+    : raw.textContent || '';
+
+  const title = (raw.title || '').trim();
+  if (!title && !body.trim()) return { skip: 'Empty note' };
+
+  const updatedAt = fromUsec(raw.userEditedTimestampUsec);
+  return {
+    notes: [{
+      title,
+      content: body,
+      tags: (raw.labels || []).map(l => normalizeTag(l.name || '')).filter(Boolean),
+      folderNames: [],
+      createdAt: fromUsec(raw.createdTimestampUsec) ?? updatedAt,
+      updatedAt,
+      isDeleted: !!raw.isTrashed
+    }]
+  };
+};
@@ -0,0 +1,248 @@
+// Minimal Markdown parser producing a plain data tree. The renderer turns the
+// tree into React elements, so raw HTML in a note is only ever shown as text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string | null; children: InlineNode[] } // href is null when unsafe
+  | { type: 'tag'; name: string }
+  | { type: 'folder'; name: string }
+  | { type: 'wikilink'; title: string; label: string }
+  | { type: 'break' };
+
+export interface ListItem {
+  line: number; // Source line index, so interactive views can edit the original text
+  checked: boolean | null; // null for a plain (non-task) item
+  children: InlineNode[];
+  blocks: Block[]; // Nested lists and continuation content
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'blockquote'; blocks: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'hr' };
+
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+
+export const sanitizeUrl = (href: string): string | null => {
+  const trimmed = href.trim();
+  // Strip control characters and whitespace browsers ignore when resolving schemes
+  const normalized = trimmed.replace(/[\u0000-\u001F\u007F\s]/g, '');
+  return SAFE_URL.test(normalized) ? trimmed : null;
+};
+
+// --- Inline ---
+
+interface InlineRule {
+  pattern: RegExp;
+  build: (match: RegExpExecArray) => InlineNode;
+}
+
+const INLINE_RULES: InlineRule[] = [
+  { pattern: /`([^`]+)`/, build: m => ({ type: 'code', text: m[1] }) },
+  {
+    pattern: /\[\[([^\]|\n]+)(?:\|([^\]\n]*))?\]\]/,
+    build: m => ({ type: 'wikilink', title: m[1].trim(), label: (m[2] || m[1]).trim() })
+  },
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/,
+    build: m => ({ type: 'link', href: sanitizeUrl(m[2]), children: parseInline(m[1]) })
+  },
+  { pattern: /<((?:https?:\/\/|mailto:)[^>\s]+)>/, build: m => ({ type: 'link', href: sanitizeUrl(m[1]), children: [{ type: 'text', text: m[1] }] }) },
+  {
+    pattern: /https?:\/\/[^\s<]+[^\s<.,:;"')\]]/,
+    build: m => ({ type: 'link', href: sanitizeUrl(m[0]), children: [{ type: 'text', text: m[0] }] })
+  },
+  { pattern: /\*\*(?=\S)([\s\S]+?)\*\*|__(?=\S)([\s\S]+?)__/, build: m => ({ type: 'strong', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /~~(?=\S)([\s\S]+?)~~/, build: m => ({ type: 'del', children: parseInline(m[1]) }) },
+  { pattern: /\*(?=\S)([\s\S]+?)\*|(?<![\w])_(?=\S)([\s\S]+?)_(?![\w])/, build: m => ({ type: 'em', children: parseInline(m[1] ?? m[2]) }) },
+  // Same token shapes the editor highlights and extracts
+  { pattern: /(?<=^|[\s(])#([a-zA-Z0-9_-]+)/, build: m => ({ type: 'tag', name: m[1].toLowerCase() }) },
+  { pattern: /(?<=^|[\s(])@([a-zA-Z0-9_-]+)/, build: m => ({ type: 'folder', name: m[1] }) },
+  { pattern: / {2,}\n|\\\n/, build: () => ({ type: 'break' }) }
+];
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    let best: { match: RegExpExecArray; rule: InlineRule } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rule.pattern.exec(rest);
+      // Earliest match wins; on a tie the rule listed first wins
+      if (match && (!best || match.index < best.match.index)) best = { match, rule };
+    }
+
+    if (!best) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+
+    const { match, rule } = best;
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    nodes.push(rule.build(match));
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+};
+
+// --- Blocks ---
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const startsBlock = (line: string, next: string | undefined) =>
+  FENCE.test(line) || HEADING.test(line) || HR.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next) && next.includes('-'));
+
+// `offset` maps line indexes back to the original document for nested parses
+const parseLines = (lines: string[], offset: number): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) body.push(lines[i++]);
+      i++; // Closing fence (or end of document)
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    // Checked before lists so "- - -" is a rule, not a nested bullet
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const start = i;
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'blockquote', blocks: parseLines(quoted, offset + start) });
+      continue;
+    }
+
+    const next = lines[i + 1];
+    if (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next) && next.includes('-')) {
+      const header = splitRow(line);
+      const align: TableAlign[] = splitRow(next).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      i += 2;
+      const rows: InlineNode[][][] = [];
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || '')));
+      }
+      blocks.push({ type: 'table', align, header: header.map(h => parseInline(h)), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, consumed] = parseList(lines, i, offset);
+      blocks.push(list);
+      i += consumed;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) paragraph.push(lines[i++]);
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+// Parses a list starting at `start`; returns the block and how many lines it used
+const parseList = (lines: string[], start: number, offset: number): [Block, number] => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || indentOf(match[1]) !== baseIndent || /\d/.test(match[2]) !== ordered) {
+      // Blank lines between items of the same list don't end it
+      if (!lines[i].trim() && lines[i + 1] !== undefined) {
+        const nextMatch = lines[i + 1].match(LIST_ITEM);
+        if (nextMatch && indentOf(nextMatch[1]) === baseIndent) {
+          i++;
+          continue;
+        }
+      }
+      break;
+    }
+
+    const task = match[3].match(TASK);
+    const itemLine = i;
+    const text = [task ? task[2] : match[3]];
+    i++;
+
+    // Lazy continuation lines belong to the item text
+    while (i < lines.length && lines[i].trim() && !LIST_ITEM.test(lines[i]) && indentOf(lines[i]) > baseIndent) {
+      text.push(lines[i++].trim());
+    }
+
+    // Deeper-indented content (typically a nested list) is parsed as child blocks
+    const childStart = i;
+    const childLines: string[] = [];
+    while (i < lines.length && (indentOf(lines[i]) > baseIndent || (!lines[i].trim() && lines[i + 1] !== undefined && indentOf(lines[i + 1]) > baseIndent && lines[i + 1].trim()))) {
+      childLines.push(lines[i++]);
+    }
+
+    items.push({
+      line: offset + itemLine,
+      checked: task ? task[1] !== ' ' : null,
+      children: parseInline(text.join('\n')),
+      blocks: childLines.length > 0 ? parseLines(childLines, offset + childStart) : []
+    });
+  }
+
+  return [{ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i - start];
+};
+
+export const parseMarkdown = (text: string): Block[] => parseLines(text.split('\n'), 0);
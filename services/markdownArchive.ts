@@ -0,0 +1,167 @@
+import { Note, Folder } from '../types';
+import { getAncestors, PATH_SEPARATOR } from './folderTree';
+import { createZip } from './zip';
+import { ImportedNote, normalizeTag } from './noteImport';
+
+// Plain Markdown files with YAML front matter, the lowest common denominator
+// between note apps. Only the small YAML subset other tools actually write is
+// understood: scalars, quoted strings and flow or block lists.
+
+export interface FrontMatter {
+  [key: string]: string | string[];
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// Always double quoted: JSON strings are valid YAML and survive any character
+const yamlString = (value: string) => JSON.stringify(value);
+const yamlList = (values: string[]) => `[${values.map(yamlString).join(', ')}]`;
+
+const parseScalar = (raw: string): string => {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+};
+
+const splitFlowList = (raw: string) => {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const ch of raw) {
+    if (quote) {
+      current += ch;
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      current += ch;
+      quote = ch;
+    } else if (ch === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  items.push(current);
+  return items.map(parseScalar).filter(Boolean);
+};
+
+export const parseFrontMatter = (text: string): { data: FrontMatter; body: string } => {
+  const match = text.match(FRONT_MATTER);
+  if (!match) return { data: {}, body: text };
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(parseScalar(item[1]));
+      return;
+    }
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) return;
+    const [, key, value] = pair;
+    listKey = null;
+    if (!value.trim()) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.trim().startsWith('[') && value.trim().endsWith(']')) {
+      data[key] = splitFlowList(value.trim().slice(1, -1));
+    } else {
+      data[key] = parseScalar(value);
+    }
+  });
+
+  return { data, body: text.slice(match[0].length) };
+};
+
+export const serializeNote = (note: Note, folderNames: string[]): string => {
+  const lines = [
+    '---',
+    `title: ${yamlString(note.title)}`,
+    `tags: ${yamlList(note.tags)}`
+  ];
+  if (folderNames.length > 0) lines.push(`folders: ${yamlList(folderNames)}`);
+  lines.push(
+    `createdAt: ${new Date(note.createdAt).toISOString()}`,
+    `updatedAt: ${new Date(note.updatedAt).toISOString()}`
+  );
+  if (note.summary) lines.push(`summary: ${yamlString(note.summary)}`);
+  lines.push('---', '');
+  return lines.join('\n') + note.content;
+};
+
+const asList = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value : value ? splitFlowList(value) : [];
+
+const asTime = (value: string | string[] | undefined) => {
+  if (typeof value !== 'string') return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// `path` is the file's location in the archive; its directories give the
+// folder path when the front matter doesn't list any.
+export const parseMarkdownNote = (path: string, text: string): ImportedNote => {
+  const { data, body } = parseFrontMatter(text);
+  const segments = path.split('/').filter(Boolean);
+  const fileName = segments.pop() || '';
+  const directory = segments.join(PATH_SEPARATOR);
+
+  const heading = body.match(/^#\s+(.+)$/m);
+  const title = typeof data.title === 'string'
+    ? data.title
+    : heading ? heading[1].trim() : fileName.replace(/\.(md|markdown|txt)$/i, '');
+
+  const folderNames = asList(data.folders);
+  return {
+    title,
+    content: body.replace(/^\r?\n/, ''),
+    tags: asList(data.tags).map(normalizeTag).filter(Boolean),
+    folderNames: folderNames.length > 0 ? folderNames : directory ? [directory] : [],
+    summary: typeof data.summary === 'string' && data.summary ? data.summary : undefined,
+    createdAt: asTime(data.createdAt),
+    updatedAt: asTime(data.updatedAt)
+  };
+};
+
+// Characters that are invalid in file names on at least one common platform
+const safeFileName = (name: string) =>
+  name.replace(/[\\/:*?"<>|\u0000-\u001F]/g, '-').replace(/^\.+/, '').trim().slice(0, 100);
+
+// One directory per folder, nested like the folders; a note in several folders
+// is written to the first and lists every folder path in its front matter so
+// import restores all of them.
+export const createMarkdownArchive = (notes: Note[], folders: Folder[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const folderById = new Map(folders.map(f => [f.id, f]));
+  const usedPaths = new Set<string>();
+
+  const uniquePath = (directory: string, base: string) => {
+    let path = `${directory}${base}.md`;
+    for (let n = 2; usedPaths.has(path.toLowerCase()); n++) path = `${directory}${base} ${n}.md`;
+    usedPaths.add(path.toLowerCase());
+    return path;
+  };
+
+  const entries = notes.filter(n => !n.isDeleted).map(note => {
+    const noteFolders = note.folderIds.map(id => folderById.get(id)).filter((f): f is Folder => !!f && !f.query);
+    const directory = noteFolders.length > 0
+      ? getAncestors(folders, noteFolders[0].id).map(f => `${safeFileName(f.name) || 'Folder'}/`).join('')
+      : '';
+    const folderPaths = noteFolders.map(f => getAncestors(folders, f.id).map(a => a.name).join(PATH_SEPARATOR));
+    return {
+      path: uniquePath(directory, safeFileName(note.title) || 'Untitled'),
+      data: encoder.encode(serializeNote(note, folderPaths)),
+      modified: note.updatedAt
+    };
+  });
+
+  return createZip(entries);
+};
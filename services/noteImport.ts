@@ -0,0 +1,140 @@
+import { readZip } from './zip';
+import { parseMarkdownNote } from './markdownArchive';
+import { parseEnex } from './enexImporter';
+import { parseKeepNote } from './keepImporter';
+
+// Format-neutral result of every importer; the app maps it onto `Note`/`Folder`
+export interface ImportedNote {
+  title: string;
+  content: string;
+  tags: string[];
+  folderNames: string[];
+  summary?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  isDeleted?: boolean;
+}
+
+export interface ImportIssue {
+  source: string;
+  message: string;
+  kind: 'skipped' | 'failed';
+}
+
+export interface ImportReport {
+  imported: number;
+  skipped: number;
+  failed: number;
+  issues: ImportIssue[];
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+  current: string;
+}
+
+// What a single source produced: its notes plus per-note problems, or a
+// reason the whole source was skipped
+export type SourceResult =
+  | { notes: ImportedNote[]; skipped?: string[]; failed?: string[] }
+  | { skip: string };
+
+// Tags in the app are single lowercase words; other tools allow spaces
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#/, '').toLowerCase().replace(/\s+/g, '-');
+
+interface ImportSource {
+  name: string;
+  read: () => Promise<string>;
+}
+
+const SUPPORTED_FILE = /\.(md|markdown|txt|enex|json)$/i;
+
+// Parses one file's text by extension
+const parseSource = (name: string, text: string): SourceResult => {
+  if (/\.enex$/i.test(name)) {
+    return parseEnex(text, name.split('/').pop()!.replace(/\.enex$/i, ''));
+  }
+  if (/\.json$/i.test(name)) return parseKeepNote(text);
+  return { notes: [parseMarkdownNote(name, text)] };
+};
+
+// Zip archives (Markdown exports, Keep Takeout) are expanded into their entries
+const collectSources = async (files: File[], report: ImportReport): Promise<ImportSource[]> => {
+  const decoder = new TextDecoder();
+  const sources: ImportSource[] = [];
+
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      try {
+        const entries = await readZip(await file.arrayBuffer());
+        entries
+          .filter(e => !e.path.split('/').some(s => s.startsWith('.') || s === '__MACOSX'))
+          .forEach(e => {
+            if (SUPPORTED_FILE.test(e.path)) sources.push({ name: e.path, read: async () => decoder.decode(e.data) });
+            // Takeout archives also carry attachments and HTML copies of each note
+            else if (!/\.(html|png|jpe?g|gif|webp|3gp|amr|m4a)$/i.test(e.path)) {
+              report.skipped++;
+              report.issues.push({ source: e.path, message: 'Unsupported file type', kind: 'skipped' });
+            }
+          });
+      } catch (e) {
+        console.error("Failed to read zip", e);
+        report.failed++;
+        report.issues.push({ source: file.name, message: 'Could not read zip archive', kind: 'failed' });
+      }
+    } else if (SUPPORTED_FILE.test(file.name)) {
+      sources.push({ name: file.name, read: () => file.text() });
+    } else {
+      report.skipped++;
+      report.issues.push({ source: file.name, message: 'Unsupported file type', kind: 'skipped' });
+    }
+  }
+
+  return sources;
+};
+
+// Runs every importer over locally chosen files. A broken file or note is
+// recorded in the report and never stops the rest of the import.
+export const importFiles = async (
+  files: File[],
+  onProgress: (progress: ImportProgress) => void
+): Promise<{ notes: ImportedNote[]; report: ImportReport }> => {
+  const report: ImportReport = { imported: 0, skipped: 0, failed: 0, issues: [] };
+  const notes: ImportedNote[] = [];
+  const sources = await collectSources(files, report);
+
+  for (let i = 0; i < sources.length; i++) {
+    const source = sources[i];
+    onProgress({ done: i, total: sources.length, current: source.name });
+    // Yield so the progress update can paint between files
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    try {
+      const result = parseSource(source.name, await source.read());
+      if ('skip' in result) {
+        report.skipped++;
+        report.issues.push({ source: source.name, message: result.skip, kind: 'skipped' });
+        continue;
+      }
+      notes.push(...result.notes);
+      report.imported += result.notes.length;
+      (result.skipped || []).forEach(message => {
+        report.skipped++;
+        report.issues.push({ source: source.name, message, kind: 'skipped' });
+      });
+      (result.failed || []).forEach(message => {
+        report.failed++;
+        report.issues.push({ source: source.name, message, kind: 'failed' });
+      });
+    } catch (e) {
+      console.error(`Failed to import ${source.name}`, e);
+      report.failed++;
+      report.issues.push({ source: source.name, message: e instanceof Error ? e.message : 'Could not be read', kind: 'failed' });
+    }
+  }
+
+  onProgress({ done: sources.length, total: sources.length, current: '' });
+  return { notes, report };
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Note } from '../types';
+import { NoteCrdt, createNoteCrdt, updateNoteCrdt, materializeNoteCrdt } from './crdt';
+
+// In-memory stand-in for the merge states kept in IndexedDB
+const states = new Map<string, NoteCrdt>();
+vi.mock('./noteRepository', () => ({
+  updateNoteCrdt: async (noteId: string, update: (state: NoteCrdt | undefined) => NoteCrdt) => {
+    const next = update(states.get(noteId));
+    states.set(noteId, next);
+    return next;
+  }
+}));
+
+const { mergeRemoteNote, recordNoteEdit } = await import('./noteMerge');
+
+const note = (overrides: Partial<Note> = {}): Note => ({
+  id: 'n1',
+  title: 'Plans',
+  content: 'hello world',
+  folderIds: [],
+  tags: ['x'],
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides
+});
+
+// What another device sends after editing `original` into `changed`
+const remoteRecord = (original: Note, changed: Note) => {
+  const crdt = updateNoteCrdt(createNoteCrdt(original), changed, 'remote');
+  return { record: { id: changed.id, updatedAt: changed.updatedAt, data: changed, crdt }, data: changed };
+};
+
+beforeEach(() => states.clear());
+
+describe('mergeRemoteNote', () => {
+  it('merges a remote edit with an unsynced local one', async () => {
+    const original = note();
+    await recordNoteEdit(note({ content: 'hello big world', updatedAt: 2 }), original);
+    const { record, data } = remoteRecord(original, note({ content: 'hello world!', tags: ['x', 'y'], updatedAt: 3 }));
+
+    const { note: merged, needsPush } = await mergeRemoteNote(record, data);
+    expect(merged.content).toBe('hello big world!');
+    expect(merged.tags).toEqual(['x', 'y']);
+    expect(merged.updatedAt).toBe(3);
+    expect(needsPush).toBe(true);
+  });
+
+  it('takes the remote note as is when there are no local edits', async () => {
+    const { record, data } = remoteRecord(note(), note({ content: 'hello there', updatedAt: 2 }));
+    const { note: merged, needsPush } = await mergeRemoteNote(record, data);
+    expect(merged).toEqual(data);
+    expect(needsPush).toBe(false);
+    expect(materializeNoteCrdt(states.get('n1')!).content).toBe('hello there');
+  });
+
+  it('does not ask for a push once the remote has seen every local edit', async () => {
+    const original = note();
+    await recordNoteEdit(note({ content: 'hello big world', updatedAt: 2 }), original);
+    const { record, data } = remoteRecord(original, note({ content: 'hello world!', updatedAt: 3 }));
+    await mergeRemoteNote(record, data);
+
+    const echoed = { ...record, crdt: states.get('n1')!, data: { ...data, content: 'hello big world!' } };
+    const { needsPush } = await mergeRemoteNote(echoed, echoed.data);
+    expect(needsPush).toBe(false);
+  });
+
+  it('lets the server version win when its merge state lags behind the note', async () => {
+    await recordNoteEdit(note({ content: 'hello big world', updatedAt: 2 }), note());
+    const stale = { id: 'n1', updatedAt: 3, data: note({ content: 'rewritten', updatedAt: 3 }), crdt: createNoteCrdt(note()) };
+    const { note: merged, needsPush } = await mergeRemoteNote(stale, stale.data);
+    expect(merged.content).toBe('rewritten');
+    expect(needsPush).toBe(false);
+  });
+});
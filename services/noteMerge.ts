@@ -0,0 +1,47 @@
+import { Note } from '../types';
+import * as repo from './noteRepository';
+import { NoteCrdt, createNoteCrdt, updateNoteCrdt, mergeNoteCrdt, materializeNoteCrdt, hasUnseenEdits } from './crdt';
+import { NoteSyncRecord } from './syncEngine';
+
+// Keeps each note's merge state (see crdt.ts) in step with local edits and
+// folds in the state that arrives with synced notes.
+
+// Tabs edit concurrently just like devices do, so each tab is its own replica
+const REPLICA_ID = crypto.randomUUID().slice(0, 8);
+
+const EMPTY_NOTE = { content: '', tags: [] as string[], folderIds: [] as string[] };
+
+const sameItems = (a: string[], b: string[]) =>
+  a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+
+const describesNote = (state: NoteCrdt, note: Note) => {
+  const value = materializeNoteCrdt(state);
+  return value.content === note.content && sameItems(value.tags, note.tags) && sameItems(value.folderIds, note.folderIds);
+};
+
+// Records a local change to a note. `previous` is the note before the change;
+// notes without merge state yet start their history from it.
+export const recordNoteEdit = (note: Note, previous?: Note) =>
+  repo.updateNoteCrdt(note.id, state => updateNoteCrdt(state || createNoteCrdt(previous || EMPTY_NOTE), note, REPLICA_ID))
+    .catch(e => console.error("Failed to record note edit", e));
+
+// Merges a pulled note with the edits made here. `needsPush` is set when this
+// device has edits the pulled version doesn't include yet.
+export const mergeRemoteNote = async (record: NoteSyncRecord, data: Note): Promise<{ note: Note; needsPush: boolean }> => {
+  const remote = record.crdt;
+  // Without state, or with state that lags behind its note, the server's version wins as is
+  if (!remote || !describesNote(remote, data)) return { note: data, needsPush: false };
+
+  try {
+    let needsPush = false;
+    const merged = await repo.updateNoteCrdt(record.id, local => {
+      if (!local) return remote;
+      needsPush = hasUnseenEdits(local, remote);
+      return mergeNoteCrdt(local, remote);
+    });
+    return { note: { ...data, ...materializeNoteCrdt(merged) }, needsPush };
+  } catch (e) {
+    console.error("Failed to merge synced note", e);
+    return { note: data, needsPush: false };
+  }
+};
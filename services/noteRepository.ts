@@ -0,0 +1,539 @@
+import { Note, Folder, NoteRevision, SyncQueueItem, TagRegistry } from '../types';
+import { NoteCrdt } from './crdt';
+import { encryptJson, decryptJson } from './cryptoService';
+
+const DB_NAME = 'sanchita_notes';
+const DB_VERSION = 4;
+
+const NOTES_STORE = 'notes';
+const FOLDERS_STORE = 'folders';
+const META_STORE = 'meta';
+const REVISIONS_STORE = 'revisions';
+const SYNC_QUEUE_STORE = 'syncQueue';
+const CRDT_STORE = 'crdt';
+
+// Legacy localStorage keys used before the IndexedDB store existed
+const LEGACY_NOTES_KEY = 'gemini_notes_data';
+const LEGACY_FOLDERS_KEY = 'gemini_folders_data';
+const MIGRATION_FLAG = 'legacyMigrated';
+const TAG_REGISTRY_KEY = 'tagRegistry';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Normalizes notes written by older versions (single folderId, missing flags)
+export const migrateNote = (n: any): Note => ({
+  ...n,
+  folderIds: Array.isArray(n.folderIds) ? n.folderIds : (n.folderId ? [n.folderId] : []),
+  tags: Array.isArray(n.tags) ? n.tags : [],
+  isDeleted: n.isDeleted || false
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(NOTES_STORE)) {
+        const notesStore = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+        notesStore.createIndex('updatedAt', 'updatedAt');
+        notesStore.createIndex('folderIds', 'folderIds', { multiEntry: true });
+        notesStore.createIndex('tags', 'tags', { multiEntry: true });
+      }
+      if (!db.objectStoreNames.contains(FOLDERS_STORE)) {
+        db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+        const revisionsStore = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+        revisionsStore.createIndex('noteId', 'noteId');
+      }
+      if (!db.objectStoreNames.contains(SYNC_QUEUE_STORE)) {
+        db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: 'key' });
+      }
+      // Merge state per note, keyed by note id
+      if (!db.objectStoreNames.contains(CRDT_STORE)) {
+        db.createObjectStore(CRDT_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// One-time import of the legacy localStorage blobs. The keys are removed once
+// the data is safely committed so they stop counting against the quota.
+const migrateLegacyData = async (db: IDBDatabase) => {
+  const flagTx = db.transaction(META_STORE, 'readonly');
+  const alreadyMigrated = await promisify(flagTx.objectStore(META_STORE).get(MIGRATION_FLAG));
+  if (alreadyMigrated) return;
+
+  let legacyNotes: Note[] = [];
+  let legacyFolders: Folder[] = [];
+
+  const savedNotes = localStorage.getItem(LEGACY_NOTES_KEY);
+  const savedFolders = localStorage.getItem(LEGACY_FOLDERS_KEY);
+
+  if (savedNotes) {
+    try {
+      legacyNotes = JSON.parse(savedNotes).map(migrateNote);
+    } catch (e) {
+      console.error("Failed to parse legacy notes", e);
+    }
+  }
+
+  if (savedFolders) {
+    try {
+      legacyFolders = JSON.parse(savedFolders);
+    } catch (e) {
+      console.error("Failed to parse legacy folders", e);
+    }
+  }
+
+  const tx = db.transaction([NOTES_STORE, FOLDERS_STORE, META_STORE], 'readwrite');
+  const notesStore = tx.objectStore(NOTES_STORE);
+  const foldersStore = tx.objectStore(FOLDERS_STORE);
+  legacyNotes.forEach(n => notesStore.put(n));
+  legacyFolders.forEach(f => foldersStore.put(f));
+  tx.objectStore(META_STORE).put(true, MIGRATION_FLAG);
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_NOTES_KEY);
+  localStorage.removeItem(LEGACY_FOLDERS_KEY);
+};
+
+const getDatabase = async () => {
+  const db = await openDatabase();
+  await migrateLegacyData(db);
+  return db;
+};
+
+// --- Encryption at rest ---
+
+// Set by the vault (see vault.ts): a key seals records before they are stored,
+// null stores plaintext, and undefined means the vault is locked, so nothing
+// can be written in plaintext by mistake
+let encryptionKey: CryptoKey | null | undefined = null;
+
+export const setEncryptionKey = (key: CryptoKey | null | undefined) => {
+  encryptionKey = key;
+};
+
+const requireKey = () => {
+  if (encryptionKey === undefined) throw new Error('Storage is locked');
+  return encryptionKey;
+};
+
+// Writes that seal records take turns with re-encryption: one started while a
+// re-encryption runs waits for it and seals with the new key, and a
+// re-encryption first waits for the writes already under way. Otherwise the
+// write runs at once, so the key is picked up before the caller returns.
+let reencryption: Promise<void> | null = null;
+const writesUnderWay = new Set<Promise<unknown>>();
+
+const sealedWrite = <A extends unknown[], R>(write: (...args: A) => Promise<R>) => (...args: A): Promise<R> => {
+  const run = reencryption ? reencryption.then(() => write(...args)) : write(...args);
+  writesUnderWay.add(run);
+  const done = () => { writesUnderWay.delete(run); };
+  run.then(done, done);
+  return run;
+};
+
+// Sealed records keep only the `envelope` fields in the clear, which the
+// store's keys and indexes need
+const seal = async (value: object, envelope: object, key = requireKey()): Promise<any> =>
+  key ? { ...envelope, sealed: await encryptJson(key, value) } : value;
+
+// Plaintext records written before encryption was turned on pass through
+const unseal = async <T>(stored: any, key = encryptionKey): Promise<T> => {
+  if (!stored || !stored.sealed) return stored;
+  if (!key) throw new Error('Storage is locked');
+  return decryptJson<T>(key, stored.sealed);
+};
+
+const unsealAll = <T>(stored: any[], key = encryptionKey) => Promise.all(stored.map(s => unseal<T>(s, key)));
+
+// For loading: a record that fails to open is logged and left out instead of
+// failing the whole load
+const unsealEach = async <T>(stored: any[]): Promise<T[]> => {
+  if (!encryptionKey && stored.some(s => s && s.sealed)) throw new Error('Storage is locked');
+  const opened = await Promise.all(stored.map(s => unseal<T>(s).then(value => [value], e => {
+    console.error("Failed to open a stored record", e);
+    return [];
+  })));
+  return opened.flat();
+};
+
+const sealNote = (note: Note, key = requireKey()) => seal(note, { id: note.id, updatedAt: note.updatedAt }, key);
+const sealFolder = (folder: Folder, key = requireKey()) => seal(folder, { id: folder.id }, key);
+const sealRevision = (revision: NoteRevision, key = requireKey()) =>
+  seal(revision, { id: revision.id, noteId: revision.noteId, createdAt: revision.createdAt }, key);
+const sealQueueItem = (item: SyncQueueItem, key = requireKey()) =>
+  seal(item, { key: item.key, updatedAt: item.record.updatedAt }, key);
+const sealCrdt = (state: NoteCrdt, key = requireKey()) => seal(state, {}, key);
+const sealTagRegistry = (registry: TagRegistry, key = requireKey()) => seal(registry, {}, key);
+
+const queuedAt = (stored: any): number => (stored.sealed ? stored.updatedAt : stored.record.updatedAt);
+
+// --- Public API ---
+
+export const loadAll = async (): Promise<{ notes: Note[]; folders: Folder[] }> => {
+  const db = await getDatabase();
+  const tx = db.transaction([NOTES_STORE, FOLDERS_STORE], 'readonly');
+  const [notes, folders] = await Promise.all([
+    promisify(tx.objectStore(NOTES_STORE).index('updatedAt').getAll()),
+    promisify(tx.objectStore(FOLDERS_STORE).getAll())
+  ]);
+  // Index order is ascending, the UI expects newest first
+  return { notes: (await unsealEach<Note>(notes)).map(migrateNote).reverse(), folders: await unsealEach<Folder>(folders) };
+};
+
+const storeNote = async (note: Note) => {
+  const sealed = await sealNote(note);
+  const db = await getDatabase();
+  const tx = db.transaction(NOTES_STORE, 'readwrite');
+  tx.objectStore(NOTES_STORE).put(sealed);
+  await transactionDone(tx);
+};
+
+export const putNote = sealedWrite(storeNote);
+
+export const putNotes = sealedWrite(async (notes: Note[]) => {
+  if (notes.length === 0) return;
+  const sealed = await Promise.all(notes.map(n => sealNote(n)));
+  const db = await getDatabase();
+  const tx = db.transaction(NOTES_STORE, 'readwrite');
+  const store = tx.objectStore(NOTES_STORE);
+  sealed.forEach(n => store.put(n));
+  await transactionDone(tx);
+});
+
+const getStoredNote = async (id: string) => {
+  const db = await getDatabase();
+  const tx = db.transaction(NOTES_STORE, 'readonly');
+  return unseal<Note | undefined>(await promisify(tx.objectStore(NOTES_STORE).get(id)));
+};
+
+// Callers don't need the current note. Decrypting can't happen inside an
+// IndexedDB transaction, so the read and the write are separate ones.
+export const patchNote = sealedWrite(async (id: string, patch: Partial<Note>) => {
+  const existing = await getStoredNote(id);
+  if (existing) await storeNote({ ...existing, ...patch });
+});
+
+// Deleting a note also drops its revision history and merge state
+const deleteRevisionsFor = (store: IDBObjectStore, noteId: string) => {
+  const request = store.index('noteId').openKeyCursor(IDBKeyRange.only(noteId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+export const removeNotes = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await getDatabase();
+  const tx = db.transaction([NOTES_STORE, REVISIONS_STORE, CRDT_STORE], 'readwrite');
+  const notesStore = tx.objectStore(NOTES_STORE);
+  const revisionsStore = tx.objectStore(REVISIONS_STORE);
+  const crdtStore = tx.objectStore(CRDT_STORE);
+  ids.forEach(id => {
+    notesStore.delete(id);
+    deleteRevisionsFor(revisionsStore, id);
+    crdtStore.delete(id);
+  });
+  await transactionDone(tx);
+};
+
+export const removeNote = (id: string) => removeNotes([id]);
+
+export const removeNotesWhere = async (predicate: (note: Note) => boolean) => {
+  const { notes } = await loadAll();
+  await removeNotes(notes.filter(predicate).map(n => n.id));
+};
+
+// Sealed notes hide their tags and folders from the indexes, so those are
+// filtered after decrypting
+export const getNotesByTag = async (tag: string): Promise<Note[]> => {
+  if (encryptionKey !== null) return (await loadAll()).notes.filter(n => n.tags.includes(tag));
+  const db = await getDatabase();
+  const tx = db.transaction(NOTES_STORE, 'readonly');
+  return promisify(tx.objectStore(NOTES_STORE).index('tags').getAll(tag) as IDBRequest<Note[]>);
+};
+
+export const getNotesByFolder = async (folderId: string): Promise<Note[]> => {
+  if (encryptionKey !== null) return (await loadAll()).notes.filter(n => n.folderIds.includes(folderId));
+  const db = await getDatabase();
+  const tx = db.transaction(NOTES_STORE, 'readonly');
+  return promisify(tx.objectStore(NOTES_STORE).index('folderIds').getAll(folderId) as IDBRequest<Note[]>);
+};
+
+export const putFolder = (folder: Folder) => putFolders([folder]);
+
+export const putFolders = sealedWrite(async (folders: Folder[]) => {
+  if (folders.length === 0) return;
+  const sealed = await Promise.all(folders.map(f => sealFolder(f)));
+  const db = await getDatabase();
+  const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+  const store = tx.objectStore(FOLDERS_STORE);
+  sealed.forEach(f => store.put(f));
+  await transactionDone(tx);
+});
+
+export const removeFolders = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await getDatabase();
+  const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+  const store = tx.objectStore(FOLDERS_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// Oldest first
+export const getRevisions = async (noteId: string): Promise<NoteRevision[]> => {
+  const db = await getDatabase();
+  const tx = db.transaction(REVISIONS_STORE, 'readonly');
+  const revisions = await promisify(tx.objectStore(REVISIONS_STORE).index('noteId').getAll(IDBKeyRange.only(noteId)));
+  return (await unsealAll<NoteRevision>(revisions)).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Adds the revision `build` makes from the note's revisions so far (oldest
+// first; null adds none) and deletes the ones `compact` picks, in one
+// transaction. Sealed revisions can only be opened outside a transaction, so
+// with encryption on the write goes ahead only if the stored revisions are
+// still the ones `build` saw, and starts over otherwise.
+export const appendRevision = sealedWrite(async (
+  noteId: string,
+  build: (revisions: NoteRevision[]) => NoteRevision | null,
+  compact: (revisions: Pick<NoteRevision, 'id' | 'createdAt'>[]) => string[]
+): Promise<void> => {
+  if (encryptionKey === null) {
+    const db = await getDatabase();
+    const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+    const store = tx.objectStore(REVISIONS_STORE);
+    const revisions: NoteRevision[] = await promisify(store.index('noteId').getAll(IDBKeyRange.only(noteId)));
+    const revision = build(revisions.sort((a, b) => a.createdAt - b.createdAt));
+    if (!revision) return;
+    store.put(revision);
+    compact([...revisions, revision]).forEach(id => store.delete(id));
+    await transactionDone(tx);
+    return;
+  }
+  for (;;) {
+    const revisions = await getRevisions(noteId);
+    const revision = build(revisions);
+    if (!revision) return;
+    const sealed = await sealRevision(revision);
+    const db = await getDatabase();
+    const tx = db.transaction(REVISIONS_STORE, 'readwrite');
+    const store = tx.objectStore(REVISIONS_STORE);
+    // Envelopes keep id and createdAt in the clear, which is all compaction needs
+    const stored: Pick<NoteRevision, 'id' | 'createdAt'>[] = await promisify(store.index('noteId').getAll(IDBKeyRange.only(noteId)));
+    const seen = new Set(revisions.map(r => r.id));
+    if (stored.length !== seen.size || stored.some(r => !seen.has(r.id))) continue;
+    store.put(sealed);
+    compact([...stored, revision]).forEach(id => store.delete(id));
+    await transactionDone(tx);
+    return;
+  }
+});
+
+export const getNoteCrdt = async (noteId: string): Promise<NoteCrdt | undefined> => {
+  const db = await getDatabase();
+  const tx = db.transaction(CRDT_STORE, 'readonly');
+  return unseal<NoteCrdt | undefined>(await promisify(tx.objectStore(CRDT_STORE).get(noteId)));
+};
+
+// Read-modify-write. With encryption on, the read and write are separate
+// transactions, so tabs saving the same note at the same instant may race.
+export const updateNoteCrdt = sealedWrite(async (noteId: string, update: (state: NoteCrdt | undefined) => NoteCrdt) => {
+  if (encryptionKey !== null) {
+    const next = update(await getNoteCrdt(noteId));
+    const sealed = await sealCrdt(next);
+    const db = await getDatabase();
+    const tx = db.transaction(CRDT_STORE, 'readwrite');
+    tx.objectStore(CRDT_STORE).put(sealed, noteId);
+    await transactionDone(tx);
+    return next;
+  }
+  const db = await getDatabase();
+  const tx = db.transaction(CRDT_STORE, 'readwrite');
+  const store = tx.objectStore(CRDT_STORE);
+  const existing = await promisify(store.get(noteId) as IDBRequest<NoteCrdt | undefined>);
+  const next = update(existing);
+  store.put(next, noteId);
+  await transactionDone(tx);
+  return next;
+});
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await getDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return promisify(tx.objectStore(META_STORE).get(key) as IDBRequest<T | undefined>);
+};
+
+export const putMeta = async (key: string, value: unknown) => {
+  const db = await getDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+// Tag colors and descriptions, kept as a single record in the meta store
+export const getTagRegistry = async (): Promise<TagRegistry> =>
+  (await unseal<TagRegistry | undefined>(await getMeta(TAG_REGISTRY_KEY))) || {};
+
+export const putTagRegistry = sealedWrite(async (registry: TagRegistry) => putMeta(TAG_REGISTRY_KEY, await sealTagRegistry(registry)));
+
+export const getSyncQueue = async (): Promise<SyncQueueItem[]> => {
+  const db = await getDatabase();
+  const tx = db.transaction(SYNC_QUEUE_STORE, 'readonly');
+  return unsealAll<SyncQueueItem>(await promisify(tx.objectStore(SYNC_QUEUE_STORE).getAll()));
+};
+
+export const putSyncQueueItems = sealedWrite(async (items: SyncQueueItem[]) => {
+  if (items.length === 0) return;
+  const sealed = await Promise.all(items.map(item => sealQueueItem(item)));
+  const db = await getDatabase();
+  const tx = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(SYNC_QUEUE_STORE);
+  sealed.forEach(item => store.put(item));
+  await transactionDone(tx);
+});
+
+// Drops items once the server has them, unless a newer change replaced them meanwhile
+export const removeSyncedItems = async (items: SyncQueueItem[]) => {
+  if (items.length === 0) return;
+  const db = await getDatabase();
+  const tx = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(SYNC_QUEUE_STORE);
+  await Promise.all(items.map(async item => {
+    const current = await promisify(store.get(item.key));
+    if (current && queuedAt(current) === item.record.updatedAt) store.delete(item.key);
+  }));
+  await transactionDone(tx);
+};
+
+export const clearSyncQueue = async () => {
+  const db = await getDatabase();
+  const tx = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+  tx.objectStore(SYNC_QUEUE_STORE).clear();
+  await transactionDone(tx);
+};
+
+// Reads every sealed store, opens it with `currentKey` and writes it back
+// sealed with `nextKey`
+const rewriteAll = async (currentKey: CryptoKey | null | undefined, nextKey: CryptoKey | null) => {
+  const names = [NOTES_STORE, FOLDERS_STORE, REVISIONS_STORE, SYNC_QUEUE_STORE, CRDT_STORE];
+  const db = await getDatabase();
+  const readTx = db.transaction([...names, META_STORE], 'readonly');
+  const [stored, tagRegistry] = await Promise.all([
+    Promise.all(names.map(name => {
+      const store = readTx.objectStore(name);
+      return Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())]);
+    })),
+    promisify(readTx.objectStore(META_STORE).get(TAG_REGISTRY_KEY))
+  ]);
+
+  const sealers: ((value: any) => Promise<any>)[] = [
+    note => sealNote(note, nextKey),
+    folder => sealFolder(folder, nextKey),
+    revision => sealRevision(revision, nextKey),
+    item => sealQueueItem(item, nextKey),
+    state => sealCrdt(state, nextKey)
+  ];
+  const resealed = await Promise.all(stored.map(([, records], i) =>
+    Promise.all(records.map(async record => sealers[i](await unseal(record, currentKey))))
+  ));
+  const sealedRegistry = tagRegistry && await sealTagRegistry(await unseal<TagRegistry>(tagRegistry, currentKey), nextKey);
+
+  // One transaction, so a failure leaves everything under the old key. Each
+  // record is put back over itself, skipping any deleted since it was read.
+  const tx = db.transaction([...names, META_STORE], 'readwrite');
+  await Promise.all(names.map(async (name, i) => {
+    const store = tx.objectStore(name);
+    const present = new Set(await promisify(store.getAllKeys()));
+    const [keys] = stored[i];
+    keys.forEach((key, j) => {
+      if (!present.has(key)) return;
+      if (store.keyPath === null) store.put(resealed[i][j], key);
+      else store.put(resealed[i][j]);
+    });
+  }));
+  if (sealedRegistry) tx.objectStore(META_STORE).put(sealedRegistry, TAG_REGISTRY_KEY);
+  await transactionDone(tx);
+};
+
+// Rewrites every sealed store under `nextKey` (null writes plaintext). Used
+// when encryption is turned on or off and when the passphrase changes. Sealed
+// writes wait until it is done (see sealedWrite); afterwards the repository
+// seals with `nextKey`, or with the old key still if it failed.
+export const reencryptAll = (nextKey: CryptoKey | null): Promise<void> => {
+  const underWay = [...writesUnderWay];
+  const run = (async () => {
+    await Promise.allSettled(underWay);
+    await rewriteAll(encryptionKey, nextKey);
+    encryptionKey = nextKey;
+  })();
+  const settled = run.then(() => {}, () => {});
+  reencryption = settled;
+  settled.then(() => {
+    if (reencryption === settled) reencryption = null;
+  });
+  return run;
+};
+
+// Removes the given notes, with their history, merge state and queued pushes,
+// and the given folders. Records written since the ids were taken stay. The
+// sync position is forgotten and the tag registry replaced by `tagRegistry`.
+export const clearAll = sealedWrite(async (noteIds: string[], folderIds: string[], tagRegistry: TagRegistry) => {
+  const sealedRegistry = await sealTagRegistry(tagRegistry);
+  const db = await getDatabase();
+  const tx = db.transaction([NOTES_STORE, FOLDERS_STORE, REVISIONS_STORE, SYNC_QUEUE_STORE, CRDT_STORE, META_STORE], 'readwrite');
+  const notesStore = tx.objectStore(NOTES_STORE);
+  const revisionsStore = tx.objectStore(REVISIONS_STORE);
+  const crdtStore = tx.objectStore(CRDT_STORE);
+  const queueStore = tx.objectStore(SYNC_QUEUE_STORE);
+  noteIds.forEach(id => {
+    notesStore.delete(id);
+    deleteRevisionsFor(revisionsStore, id);
+    crdtStore.delete(id);
+    queueStore.delete(`note:${id}`);
+  });
+  const foldersStore = tx.objectStore(FOLDERS_STORE);
+  folderIds.forEach(id => {
+    foldersStore.delete(id);
+    queueStore.delete(`folder:${id}`);
+  });
+  // Forget the sync position but not the legacy migration, which must never run again
+  const metaStore = tx.objectStore(META_STORE);
+  metaStore.clear();
+  metaStore.put(true, MIGRATION_FLAG);
+  metaStore.put(sealedRegistry, TAG_REGISTRY_KEY);
+  await transactionDone(tx);
+});
@@ -0,0 +1,35 @@
+import { Note, SortOrder } from '../types';
+
+// Notes never dragged fall back to newest first, ahead of older ranked ones
+const rankOf = (note: Note) => note.manualRank ?? -note.createdAt;
+
+const COMPARATORS: Record<SortOrder, (a: Note, b: Note) => number> = {
+  updated: (a, b) => b.updatedAt - a.updatedAt,
+  created: (a, b) => b.createdAt - a.createdAt,
+  title: (a, b) => (a.title || a.content).localeCompare(b.title || b.content, undefined, { sensitivity: 'base' }) || b.updatedAt - a.updatedAt,
+  manual: (a, b) => rankOf(a) - rankOf(b)
+};
+
+export const sortNotes = (notes: Note[], order: SortOrder) => [...notes].sort(COMPARATORS[order]);
+
+// Pinned notes first, each group keeping the order it came in
+export const pinnedFirst = (notes: Note[]) => [...notes.filter(n => n.isPinned), ...notes.filter(n => !n.isPinned)];
+
+// Rank that puts a dropped note between two neighbours, either of which may be
+// missing at the ends of the list
+export const rankBetween = (before?: Note, after?: Note) => {
+  if (before && after) return (rankOf(before) + rankOf(after)) / 2;
+  if (before) return rankOf(before) + 1;
+  if (after) return rankOf(after) - 1;
+  return 0;
+};
+
+// Rank for moving `dragged` onto `target` within `list`: it lands after the
+// target when moving down and before it when moving up
+export const rankForDrop = (list: Note[], dragged: Note, target: Note) => {
+  const from = list.findIndex(n => n.id === dragged.id);
+  const rest = list.filter(n => n.id !== dragged.id);
+  const targetIndex = rest.findIndex(n => n.id === target.id);
+  const insertAt = from >= 0 && from <= targetIndex ? targetIndex + 1 : targetIndex;
+  return rankBetween(rest[insertAt - 1], rest[insertAt]);
+};
@@ -0,0 +1,91 @@
+import { AIProvider, AIAnalysisResult, ANALYSIS_PROMPT, SUMMARY_PROMPT } from './aiProvider';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+  model: string;
+  apiKey?: string;
+}
+
+const ANALYSIS_SYSTEM_PROMPT =
+  'You return JSON only, shaped as {"title": string, "summary": string, "tags": string[]}. ' +
+  'The title is concise, the summary is at most 20 words, and tags are up to 5 single-word lowercase labels.';
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const baseUrl = config.baseUrl.trim().replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  const chat = async (messages: { role: string; content: string }[], json: boolean): Promise<string | null> => {
+    const data = await post('/chat/completions', {
+      model: config.model,
+      messages,
+      temperature: 0.3,
+      ...(json ? { response_format: { type: 'json_object' } } : {})
+    });
+    return data?.choices?.[0]?.message?.content ?? null;
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    isConfigured: () => !!baseUrl && !!config.model,
+
+    analyze: async (content: string): Promise<AIAnalysisResult | null> => {
+      if (!baseUrl || !config.model) return null;
+      try {
+        const text = await chat([
+          { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+          { role: 'user', content: ANALYSIS_PROMPT(content) }
+        ], true);
+        if (!text) return null;
+
+        // Local models sometimes wrap JSON in prose or code fences
+        const jsonText = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+        const data = JSON.parse(jsonText);
+        return {
+          title: String(data.title || ''),
+          summary: String(data.summary || ''),
+          tags: Array.isArray(data.tags) ? data.tags.map(String) : []
+        };
+      } catch (error) {
+        console.error("OpenAI-compatible Analysis Failed:", error);
+        return null;
+      }
+    },
+
+    summarize: async (content: string): Promise<string | null> => {
+      if (!baseUrl || !config.model) return null;
+      try {
+        const text = await chat([{ role: 'user', content: SUMMARY_PROMPT(content) }], false);
+        return text?.trim() || null;
+      } catch (error) {
+        console.error("OpenAI-compatible Summary Failed:", error);
+        return null;
+      }
+    },
+
+    embed: async (text: string): Promise<number[] | null> => {
+      if (!baseUrl || !config.model) return null;
+      try {
+        const data = await post('/embeddings', { model: config.model, input: text.substring(0, 5000) });
+        return data?.data?.[0]?.embedding ?? null;
+      } catch (error) {
+        console.error("OpenAI-compatible Embedding Failed:", error);
+        return null;
+      }
+    }
+  };
+};
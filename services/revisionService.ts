@@ -0,0 +1,71 @@
+import { Note, NoteRevision } from '../types';
+import * as repo from './noteRepository';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Retention policy: the newest revisions are always kept; older ones are thinned
+// to one per hour for the last day, one per day for the last month and one per
+// week after that, with a hard cap per note.
+const KEEP_RECENT = 10;
+const MAX_REVISIONS = 50;
+
+const bucketFor = (createdAt: number, now: number) => {
+  const age = now - createdAt;
+  if (age < DAY_MS) return `h${Math.floor(createdAt / HOUR_MS)}`;
+  if (age < 30 * DAY_MS) return `d${Math.floor(createdAt / DAY_MS)}`;
+  return `w${Math.floor(createdAt / (7 * DAY_MS))}`;
+};
+
+// Ids of revisions the policy drops. Input is oldest first.
+export const selectRevisionsToCompact = (revisions: Pick<NoteRevision, 'id' | 'createdAt'>[], now = Date.now()): string[] => {
+  const newestFirst = [...revisions].sort((a, b) => b.createdAt - a.createdAt);
+  const kept: Pick<NoteRevision, 'id' | 'createdAt'>[] = [];
+  const seenBuckets = new Set<string>();
+
+  newestFirst.forEach((revision, index) => {
+    if (index < KEEP_RECENT) {
+      kept.push(revision);
+      return;
+    }
+    // Keep the newest revision of each bucket
+    const bucket = bucketFor(revision.createdAt, now);
+    if (!seenBuckets.has(bucket)) {
+      seenBuckets.add(bucket);
+      kept.push(revision);
+    }
+  });
+
+  const keptIds = new Set(kept.slice(0, MAX_REVISIONS).map(r => r.id));
+  return revisions.filter(r => !keptIds.has(r.id)).map(r => r.id);
+};
+
+// Snapshots the note unless nothing user-visible changed since the last
+// revision, and compacts in the same write
+export const recordRevision = (note: Note) =>
+  repo.appendRevision(note.id, revisions => {
+    const latest = revisions[revisions.length - 1];
+    if (
+      latest &&
+      latest.title === note.title &&
+      latest.content === note.content &&
+      latest.tags.join() === note.tags.join() &&
+      latest.folderIds.join() === note.folderIds.join()
+    ) {
+      return null;
+    }
+    // Nothing worth keeping in a brand new empty note
+    if (!latest && !note.title && !note.content) return null;
+
+    return {
+      id: crypto.randomUUID(),
+      noteId: note.id,
+      createdAt: note.updatedAt,
+      title: note.title,
+      content: note.content,
+      tags: [...note.tags],
+      folderIds: [...note.folderIds]
+    };
+  }, revisions => selectRevisionsToCompact(revisions));
+
+export const getRevisions = repo.getRevisions;
@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+import { AppState, ViewState } from '../types';
+
+// Where the user is lives in the URL hash, so a refresh or a bookmark lands in
+// the same place and the browser's Back and Forward move between views:
+//   #/  #/folders  #/folder/:id  #/tags  #/tag/:tag  #/note/:id  #/search?q=
+//   #/settings  #/trash  #/tasks  #/archive
+// Any route can carry ?q= for a search within that view.
+export interface Route extends AppState {
+  query: string;
+}
+
+export const HOME_ROUTE: Route = { view: 'home', activeNoteId: null, activeFolderId: null, activeTag: null, query: '' };
+
+const PLAIN_VIEWS: ViewState[] = ['folders', 'tags', 'settings', 'trash', 'tasks', 'archive'];
+
+// Entries this app pushed, which Back can return through
+const APP_ENTRY = { fromApp: true };
+
+export const parseRoute = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#\/?/, '').split('?');
+  const query = new URLSearchParams(search).get('q') || '';
+  const [section = '', ...rest] = path.split('/');
+  let param = '';
+  try {
+    param = decodeURIComponent(rest.join('/'));
+  } catch (e) {
+    console.error("Malformed link", e);
+  }
+
+  if (section === 'note' && param) return { ...HOME_ROUTE, activeNoteId: param };
+  if (section === 'folder' && param) return { ...HOME_ROUTE, view: 'folders', activeFolderId: param, query };
+  if (section === 'tag' && param) return { ...HOME_ROUTE, view: 'tags', activeTag: param, query };
+  if (PLAIN_VIEWS.includes(section as ViewState)) return { ...HOME_ROUTE, view: section as ViewState, query };
+  return { ...HOME_ROUTE, query };
+};
+
+export const formatRoute = (route: Route): string => {
+  if (route.activeNoteId) return `#/note/${encodeURIComponent(route.activeNoteId)}`;
+  const search = route.query ? `?${new URLSearchParams({ q: route.query })}` : '';
+  if (route.view === 'folders' && route.activeFolderId) return `#/folder/${encodeURIComponent(route.activeFolderId)}${search}`;
+  if (route.view === 'tags' && route.activeTag) return `#/tag/${encodeURIComponent(route.activeTag)}${search}`;
+  if (PLAIN_VIEWS.includes(route.view)) return `#/${route.view}${search}`;
+  return route.query ? `#/search${search}` : '#/';
+};
+
+// Keeps `route` and the URL in step. Changes to the route add a history entry,
+// except edits to the search text, which replace it so Back doesn't walk
+// through every keystroke. `onNavigate` gets the route when the URL changes
+// from outside: Back, Forward or an edited address.
+export const useHashRouter = (route: Route, onNavigate: (route: Route) => void) => {
+  const hash = formatRoute(route);
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+
+  useEffect(() => {
+    if (window.location.hash === hash) return;
+    const current = parseRoute(window.location.hash);
+    const isSearchEdit = !window.location.hash || formatRoute({ ...current, query: route.query }) === hash;
+    if (isSearchEdit) window.history.replaceState(window.history.state, '', hash);
+    else window.history.pushState(APP_ENTRY, '', hash);
+  }, [hash]);
+
+  useEffect(() => {
+    const handleChange = () => {
+      if (window.location.hash !== hash) onNavigateRef.current(parseRoute(window.location.hash));
+    };
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener('hashchange', handleChange);
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener('hashchange', handleChange);
+    };
+  }, [hash]);
+};
+
+// Leaves the current entry the way the browser's Back would when this app
+// pushed it, so closing a note doesn't leave it on the forward stack to return
+// to. Otherwise, such as after opening a link, `fallback` navigates instead.
+export const navigateBack = (fallback: () => void) => {
+  if (window.history.state?.fromApp) window.history.back();
+  else fallback();
+};
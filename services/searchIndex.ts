@@ -0,0 +1,218 @@
+import { Note } from '../types';
+
+// Field weights for BM25F. A hit in the title counts as several body hits.
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  summary: 1.5,
+  content: 1
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PREFIX_MATCH_FACTOR = 0.6; // Prefix expansions rank below exact term hits
+const MIN_PREFIX_LENGTH = 2;
+const SNIPPET_LENGTH = 160;
+
+export interface SearchResult {
+  id: string;
+  score: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Lowercase and strip diacritics so "café" and "cafe" index the same
+export const foldText = (text: string) =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const createSearchIndex = () => {
+  // term -> (note id -> weighted term frequency)
+  const postings = new Map<string, Map<string, number>>();
+  const docLengths = new Map<string, number>();
+  const docTerms = new Map<string, string[]>();
+  let totalLength = 0;
+
+  const remove = (id: string) => {
+    const terms = docTerms.get(id);
+    if (!terms) return;
+    terms.forEach(term => {
+      const docs = postings.get(term);
+      if (!docs) return;
+      docs.delete(id);
+      if (docs.size === 0) postings.delete(term);
+    });
+    totalLength -= docLengths.get(id) || 0;
+    docLengths.delete(id);
+    docTerms.delete(id);
+  };
+
+  const add = (note: Note) => {
+    remove(note.id);
+
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    const fields: [string, number][] = [
+      [note.title || '', FIELD_WEIGHTS.title],
+      [note.tags.join(' '), FIELD_WEIGHTS.tags],
+      [note.summary || '', FIELD_WEIGHTS.summary],
+      [note.content, FIELD_WEIGHTS.content]
+    ];
+    fields.forEach(([text, weight]) => {
+      tokenize(text).forEach(term => {
+        frequencies.set(term, (frequencies.get(term) || 0) + weight);
+        length += weight;
+      });
+    });
+
+    frequencies.forEach((tf, term) => {
+      let docs = postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        postings.set(term, docs);
+      }
+      docs.set(note.id, tf);
+    });
+    docLengths.set(note.id, length);
+    docTerms.set(note.id, [...frequencies.keys()]);
+    totalLength += length;
+  };
+
+  const clear = () => {
+    postings.clear();
+    docLengths.clear();
+    docTerms.clear();
+    totalLength = 0;
+  };
+
+  // Index terms a query term matches: itself, plus any longer term it prefixes
+  const expandTerm = (queryTerm: string): [string, number][] => {
+    const matches: [string, number][] = [];
+    if (postings.has(queryTerm)) matches.push([queryTerm, 1]);
+    if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+      postings.forEach((_, term) => {
+        if (term !== queryTerm && term.startsWith(queryTerm)) matches.push([term, PREFIX_MATCH_FACTOR]);
+      });
+    }
+    return matches;
+  };
+
+  // Every query term must match (exactly or by prefix); ranking is BM25F
+  const search = (query: string): SearchResult[] => {
+    const queryTerms = [...new Set(tokenize(query))];
+    const docCount = docLengths.size;
+    if (queryTerms.length === 0 || docCount === 0) return [];
+
+    const avgLength = totalLength / docCount || 1;
+    let scores: Map<string, number> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termScores = new Map<string, number>();
+      expandTerm(queryTerm).forEach(([term, factor]) => {
+        const docs = postings.get(term)!;
+        const idf = Math.log(1 + (docCount - docs.size + 0.5) / (docs.size + 0.5));
+        docs.forEach((tf, id) => {
+          const norm = 1 - BM25_B + BM25_B * ((docLengths.get(id) || 0) / avgLength);
+          const score = factor * idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+          // Keep the best expansion per document rather than summing, so short prefixes don't dominate
+          termScores.set(id, Math.max(termScores.get(id) || 0, score));
+        });
+      });
+
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const next = new Map<string, number>();
+        scores.forEach((score, id) => {
+          const termScore = termScores.get(id);
+          if (termScore !== undefined) next.set(id, score + termScore);
+        });
+        scores = next;
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return [...scores!.entries()]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  return { add, remove, clear, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// --- Highlighting ---
+
+// Folds text one character at a time so match offsets map back onto the original string
+const foldWithOffsets = (text: string) => {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const f = foldText(text[i]);
+    for (let j = 0; j < f.length; j++) offsets.push(i);
+    folded += f;
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+};
+
+const findMatches = (text: string, terms: string[]): [number, number][] => {
+  if (terms.length === 0) return [];
+  const { folded, offsets } = foldWithOffsets(text);
+  const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).sort((a, b) => b.length - a.length);
+  // Terms match at word starts, mirroring the index's prefix matching
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})`, 'gu');
+  const ranges: [number, number][] = [];
+  for (const match of folded.matchAll(pattern)) {
+    const start = offsets[match.index!];
+    const end = offsets[match.index! + match[0].length];
+    ranges.push([start, end]);
+  }
+  return ranges;
+};
+
+const toSegments = (text: string, ranges: [number, number][], from = 0, to = text.length): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let cursor = from;
+  ranges.forEach(([start, end]) => {
+    if (end <= from || start >= to) return;
+    const s = Math.max(start, from);
+    const e = Math.min(end, to);
+    if (s > cursor) segments.push({ text: text.slice(cursor, s), isMatch: false });
+    segments.push({ text: text.slice(s, e), isMatch: true });
+    cursor = e;
+  });
+  if (cursor < to) segments.push({ text: text.slice(cursor, to), isMatch: false });
+  return segments;
+};
+
+export const highlightText = (text: string, terms: string[]): HighlightSegment[] =>
+  toSegments(text, findMatches(text, terms));
+
+// A window of text around the first match, or null when nothing matches
+export const buildSnippet = (text: string, terms: string[], length = SNIPPET_LENGTH): HighlightSegment[] | null => {
+  // Flatten line breaks one-for-one so match offsets stay valid
+  const flat = text.replace(/\s/g, ' ');
+  const ranges = findMatches(flat, terms);
+  if (ranges.length === 0) return null;
+
+  const firstMatch = ranges[0][0];
+  let from = Math.max(0, firstMatch - Math.floor(length / 3));
+  // Start on a word boundary
+  if (from > 0) {
+    const space = flat.lastIndexOf(' ', from);
+    from = space > firstMatch - length / 2 ? space + 1 : from;
+  }
+  const to = Math.min(flat.length, from + length);
+
+  const segments = toSegments(flat, ranges, from, to);
+  if (from > 0) segments.unshift({ text: '…', isMatch: false });
+  if (to < flat.length) segments.push({ text: '…', isMatch: false });
+  return segments;
+};
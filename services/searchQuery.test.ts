@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { Folder, Note } from '../types';
+import { lexQuery, parseSearchQuery, matchesQuery } from './searchQuery';
+
+const NOW = new Date(2026, 5, 15, 12).getTime();
+
+const note = (overrides: Partial<Note> = {}): Note => ({
+  id: 'n1',
+  title: 'Weekly review',
+  content: 'Plan the sprint and ship the release',
+  folderIds: [],
+  tags: [],
+  createdAt: new Date(2026, 0, 10).getTime(),
+  updatedAt: new Date(2026, 5, 1).getTime(),
+  ...overrides
+});
+
+const folders: Folder[] = [{ id: 'f-work', name: 'Work' }, { id: 'f-home', name: 'Home' }];
+
+const matches = (query: string, target: Note) => {
+  const { ast, error } = parseSearchQuery(query, NOW);
+  expect(error).toBeNull();
+  return matchesQuery(target, ast!, { folders, now: NOW });
+};
+
+describe('lexQuery', () => {
+  it('splits words, operators and parentheses with their positions', () => {
+    expect(lexQuery('(a OR b) -c')).toEqual([
+      { kind: 'lparen', pos: 0 },
+      { kind: 'word', value: 'a', pos: 1 },
+      { kind: 'or', pos: 3 },
+      { kind: 'word', value: 'b', pos: 6 },
+      { kind: 'rparen', pos: 7 },
+      { kind: 'not', pos: 9 },
+      { kind: 'word', value: 'c', pos: 10 }
+    ]);
+  });
+
+  it('keeps quoted phrases whole, including inside fields', () => {
+    expect(lexQuery('"ship it" folder:"Project X"')).toEqual([
+      { kind: 'phrase', value: 'ship it', pos: 0 },
+      { kind: 'field', field: 'folder', value: 'Project X', quoted: true, pos: 10 }
+    ]);
+  });
+
+  it('treats a lowercase "or" and a dash inside a word as plain text', () => {
+    expect(lexQuery('this or that well-known')).toEqual([
+      { kind: 'word', value: 'this', pos: 0 },
+      { kind: 'word', value: 'or', pos: 5 },
+      { kind: 'word', value: 'that', pos: 8 },
+      { kind: 'word', value: 'well-known', pos: 13 }
+    ]);
+  });
+});
+
+describe('parseSearchQuery errors', () => {
+  const errorOf = (query: string) => parseSearchQuery(query, NOW).error;
+
+  it('points at a dangling OR', () => {
+    expect(errorOf('a OR')).toEqual({ message: '"OR" needs a term on both sides', position: 2 });
+  });
+
+  it('points at an unclosed parenthesis', () => {
+    expect(errorOf('(a')).toEqual({ message: 'Missing closing parenthesis', position: 0 });
+  });
+
+  it('points at an unknown filter', () => {
+    expect(errorOf('x foo:bar')).toEqual({ message: 'Unknown filter "foo:"', position: 2 });
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(errorOf('before:2026-02-31')).toEqual({ message: 'Invalid date "2026-02-31", use YYYY-MM-DD', position: 0 });
+  });
+
+  it('points at a missing closing quote', () => {
+    expect(errorOf('a "open')?.position).toBe(2);
+  });
+
+  it('returns no tree and no error for an empty query', () => {
+    expect(parseSearchQuery('   ', NOW)).toEqual({ ast: null, error: null });
+  });
+});
+
+describe('matchesQuery', () => {
+  it('matches tags case-insensitively and with a leading #', () => {
+    const tagged = note({ tags: ['work', 'urgent'] });
+    expect(matches('tag:work', tagged)).toBe(true);
+    expect(matches('tag:#Urgent', tagged)).toBe(true);
+    expect(matches('tag:home', tagged)).toBe(false);
+    expect(matches('-tag:work', tagged)).toBe(false);
+  });
+
+  it('matches folders by name against folderIds', () => {
+    const filed = note({ folderIds: ['f-work'] });
+    expect(matches('folder:work', filed)).toBe(true);
+    expect(matches('folder:Home', filed)).toBe(false);
+    expect(matches('folder:home OR folder:work', filed)).toBe(true);
+    expect(matches('is:unfiled', note())).toBe(true);
+  });
+
+  it('compares dates by day with comparators and before/after', () => {
+    const target = note();
+    expect(matches('created:2026-01-10', target)).toBe(true);
+    expect(matches('created:>2026-01-09', target)).toBe(true);
+    expect(matches('created:>2026-01-10', target)).toBe(false);
+    expect(matches('created:>=2026-01', target)).toBe(true);
+    expect(matches('before:2026-06-02', target)).toBe(true);
+    expect(matches('after:2026-06-01', target)).toBe(false);
+    expect(matches('updated:2026', target)).toBe(true);
+  });
+
+  it('only matches trashed notes with is:trashed', () => {
+    expect(matches('is:trashed', note({ isDeleted: true }))).toBe(true);
+    expect(matches('is:trashed', note())).toBe(false);
+    expect(matches('-is:deleted', note())).toBe(true);
+  });
+
+  it('combines free text, phrases and filters', () => {
+    const target = note({ tags: ['work'] });
+    expect(matches('sprint tag:work', target)).toBe(true);
+    expect(matches('"ship the release"', target)).toBe(true);
+    expect(matches('"release the ship"', target)).toBe(false);
+    expect(matches('(missing OR review) tag:work', target)).toBe(true);
+  });
+});
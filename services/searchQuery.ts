@@ -0,0 +1,400 @@
+import { Note, Folder } from '../types';
+import { foldText, tokenize } from './searchIndex';
+
+// Grammar (implicit AND binds tighter than OR):
+//
+//   query   := or
+//   or      := and ("OR" and)*
+//   and     := unary+
+//   unary   := "-" unary | primary
+//   primary := "(" or ")" | FIELD ":" value | PHRASE | WORD
+//
+// Fields: tag, folder, title, is, created, updated, before, after.
+// Date values accept YYYY, YYYY-MM, YYYY-MM-DD, today, yesterday or Nd (N days ago),
+// optionally prefixed by a comparator: > >= < <= =
+
+export type DateField = 'createdAt' | 'updatedAt';
+export type Comparator = '<' | '<=' | '>' | '>=' | '=';
+export type IsFilter = 'trashed' | 'untagged' | 'unfiled' | 'pinned' | 'archived';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string; exact: boolean }
+  | { type: 'tag'; value: string }
+  | { type: 'folder'; value: string }
+  | { type: 'title'; value: string }
+  | { type: 'is'; value: IsFilter }
+  | { type: 'date'; field: DateField; op: Comparator; start: number; end: number };
+
+export interface QueryError {
+  message: string;
+  position: number; // Offset into the input, for pointing at the problem
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null; // null for an empty query
+  error: QueryError | null;
+}
+
+export interface QueryContext {
+  folders: Folder[];
+  now?: number;
+}
+
+const IS_VALUES: Record<string, IsFilter> = {
+  trashed: 'trashed',
+  deleted: 'trashed',
+  untagged: 'untagged',
+  unfiled: 'unfiled',
+  pinned: 'pinned',
+  archived: 'archived'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const QUERY_FIELDS = ['tag', 'folder', 'title', 'is', 'created', 'updated', 'before', 'after'] as const;
+type QueryField = typeof QUERY_FIELDS[number];
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+// --- Lexer ---
+
+type Token =
+  | { kind: 'word'; value: string; pos: number }
+  | { kind: 'phrase'; value: string; pos: number }
+  | { kind: 'field'; field: QueryField; value: string; quoted: boolean; pos: number }
+  | { kind: 'lparen' | 'rparen' | 'not' | 'or'; pos: number };
+
+const isBoundary = (ch: string) => /\s/.test(ch) || ch === '(' || ch === ')' || ch === '"';
+
+const readPhrase = (input: string, start: number): [string, number] => {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) throw new QuerySyntaxError('Missing closing quote', start);
+  return [input.slice(start + 1, end), end + 1];
+};
+
+export const lexQuery = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(') { tokens.push({ kind: 'lparen', pos: i }); i++; continue; }
+    if (ch === ')') { tokens.push({ kind: 'rparen', pos: i }); i++; continue; }
+    if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'not', pos: i });
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      const [value, next] = readPhrase(input, i);
+      tokens.push({ kind: 'phrase', value, pos: i });
+      i = next;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !isBoundary(input[i])) i++;
+    const word = input.slice(start, i);
+
+    const fieldMatch = word.match(/^([a-zA-Z]+):(.*)$/);
+    if (fieldMatch) {
+      const field = fieldMatch[1].toLowerCase();
+      if (!(QUERY_FIELDS as readonly string[]).includes(field)) {
+        throw new QuerySyntaxError(`Unknown filter "${fieldMatch[1]}:"`, start);
+      }
+      let value = fieldMatch[2];
+      let quoted = false;
+      // folder:"Project X" and created:>"2026-01-01"
+      if (input[i] === '"' && (value === '' || /^[<>=]+$/.test(value))) {
+        const [phrase, next] = readPhrase(input, i);
+        value += phrase;
+        quoted = true;
+        i = next;
+      }
+      tokens.push({ kind: 'field', field: field as QueryField, value, quoted, pos: start });
+      continue;
+    }
+
+    tokens.push(word === 'OR' ? { kind: 'or', pos: start } : { kind: 'word', value: word, pos: start });
+  }
+
+  return tokens;
+};
+
+// --- Dates ---
+
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Resolves a date literal to the [start, end) range it covers
+export const parseDateRange = (value: string, now = Date.now()): [number, number] | null => {
+  const v = value.toLowerCase();
+  if (v === 'today') {
+    const start = startOfDay(now);
+    return [start, start + DAY_MS];
+  }
+  if (v === 'yesterday') {
+    const start = startOfDay(now) - DAY_MS;
+    return [start, start + DAY_MS];
+  }
+  const relative = v.match(/^(\d+)d$/);
+  if (relative) {
+    const start = startOfDay(now) - Number(relative[1]) * DAY_MS;
+    return [start, start + DAY_MS];
+  }
+
+  const match = v.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+
+  if (month === null) return [new Date(year, 0, 1).getTime(), new Date(year + 1, 0, 1).getTime()];
+  if (day === null) return [new Date(year, month, 1).getTime(), new Date(year, month + 1, 1).getTime()];
+
+  const date = new Date(year, month, day);
+  if (date.getMonth() !== month) return null; // e.g. 2026-02-31
+  return [date.getTime(), new Date(year, month, day + 1).getTime()];
+};
+
+// --- Parser ---
+
+const buildFieldNode = (token: Extract<Token, { kind: 'field' }>, now: number): QueryNode => {
+  const { field, pos } = token;
+  const value = token.value.trim();
+  if (!value) throw new QuerySyntaxError(`"${field}:" needs a value`, pos);
+
+  switch (field) {
+    case 'tag':
+      return { type: 'tag', value: value.replace(/^#/, '').toLowerCase() };
+    case 'folder':
+      return { type: 'folder', value: value.replace(/^@/, '') };
+    case 'title':
+      return { type: 'title', value };
+    case 'is': {
+      const filter = IS_VALUES[value.toLowerCase()];
+      if (!filter) {
+        throw new QuerySyntaxError(`Unknown "is:${value}", try ${Object.keys(IS_VALUES).join(', ')}`, pos);
+      }
+      return { type: 'is', value: filter };
+    }
+    default: {
+      // created/updated take an optional comparator, before/after imply one (on updatedAt)
+      const comparatorMatch = value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+      let op = (comparatorMatch[1] || '=') as Comparator;
+      const literal = comparatorMatch[2];
+      if ((field === 'before' || field === 'after') && comparatorMatch[1]) {
+        throw new QuerySyntaxError(`"${field}:" doesn't take a comparator`, pos);
+      }
+      if (field === 'before') op = '<';
+      if (field === 'after') op = '>';
+
+      const range = parseDateRange(literal, now);
+      if (!range) throw new QuerySyntaxError(`Invalid date "${literal}", use YYYY-MM-DD`, pos);
+      return {
+        type: 'date',
+        field: field === 'created' ? 'createdAt' : 'updatedAt',
+        op,
+        start: range[0],
+        end: range[1]
+      };
+    }
+  }
+};
+
+export const parseSearchQuery = (input: string, now = Date.now()): ParsedQuery => {
+  let tokens: Token[];
+  try {
+    tokens = lexQuery(input);
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) return { ast: null, error: { message: e.message, position: e.position } };
+    throw e;
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const orToken = tokens[index++];
+      if (!peek() || peek().kind === 'or' || peek().kind === 'rparen') {
+        throw new QuerySyntaxError('"OR" needs a term on both sides', orToken.pos);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      const token = peek();
+      throw new QuerySyntaxError(
+        token?.kind === 'or' ? '"OR" needs a term on both sides' : 'Expected a search term',
+        token ? token.pos : input.length
+      );
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token.kind === 'not') {
+      index++;
+      const next = peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') {
+        throw new QuerySyntaxError('"-" must be followed by a term', token.pos);
+      }
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+    switch (token.kind) {
+      case 'lparen': {
+        if (peek()?.kind === 'rparen') throw new QuerySyntaxError('Empty parentheses', token.pos);
+        const node = parseOr();
+        if (peek()?.kind !== 'rparen') throw new QuerySyntaxError('Missing closing parenthesis', token.pos);
+        index++;
+        return node;
+      }
+      case 'field':
+        return buildFieldNode(token, now);
+      case 'phrase':
+        if (!token.value.trim()) throw new QuerySyntaxError('Empty phrase', token.pos);
+        return { type: 'text', value: token.value, exact: true };
+      case 'word':
+        return { type: 'text', value: token.value, exact: false };
+      default:
+        throw new QuerySyntaxError('Unexpected token', token.pos);
+    }
+  };
+
+  try {
+    if (tokens.length === 0) return { ast: null, error: null };
+    const ast = parseOr();
+    if (index < tokens.length) {
+      throw new QuerySyntaxError('Unmatched closing parenthesis', tokens[index].pos);
+    }
+    return { ast, error: null };
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) return { ast: null, error: { message: e.message, position: e.position } };
+    throw e;
+  }
+};
+
+// --- Evaluation ---
+
+const collapse = (text: string) => foldText(text).replace(/\s+/g, ' ');
+
+const matchesWords = (haystack: string, value: string) => {
+  const haystackTerms = tokenize(haystack);
+  return tokenize(value).every(term => haystackTerms.some(t => t.startsWith(term)));
+};
+
+const matchesDate = (time: number, op: Comparator, start: number, end: number) => {
+  switch (op) {
+    case '<': return time < start;
+    case '<=': return time < end;
+    case '>': return time >= end;
+    case '>=': return time >= start;
+    default: return time >= start && time < end;
+  }
+};
+
+export const matchesQuery = (note: Note, node: QueryNode, context: QueryContext): boolean => {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesQuery(note, child, context));
+    case 'or':
+      return node.children.some(child => matchesQuery(note, child, context));
+    case 'not':
+      return !matchesQuery(note, node.child, context);
+    case 'text': {
+      const haystack = [note.title, note.summary || '', note.content, note.tags.join(' ')].join('\n');
+      return node.exact
+        ? collapse(haystack).includes(collapse(node.value))
+        : matchesWords(haystack, node.value);
+    }
+    case 'title':
+      return matchesWords(note.title, node.value);
+    case 'tag':
+      return note.tags.some(t => t.toLowerCase() === node.value);
+    case 'folder': {
+      const name = node.value.toLowerCase();
+      return context.folders.some(f => f.name.toLowerCase() === name && note.folderIds.includes(f.id));
+    }
+    case 'is':
+      if (node.value === 'trashed') return !!note.isDeleted;
+      if (node.value === 'untagged') return note.tags.length === 0;
+      if (node.value === 'pinned') return !!note.isPinned;
+      if (node.value === 'archived') return !!note.isArchived;
+      return note.folderIds.length === 0;
+    case 'date':
+      return matchesDate(note[node.field], node.op, node.start, node.end);
+  }
+};
+
+const referencesFilter = (node: QueryNode | null, filter: IsFilter): boolean => {
+  if (!node) return false;
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.some(child => referencesFilter(child, filter));
+    case 'not':
+      return referencesFilter(node.child, filter);
+    case 'is':
+      return node.value === filter;
+    default:
+      return false;
+  }
+};
+
+// True when the query explicitly asks for trashed notes, which are hidden otherwise
+export const referencesTrash = (node: QueryNode | null) => referencesFilter(node, 'trashed');
+
+// Same for archived notes, which only the Archive view shows otherwise
+export const referencesArchive = (node: QueryNode | null) => referencesFilter(node, 'archived');
+
+// Free-text values that aren't negated, used for ranking and highlighting
+export const collectTextTerms = (node: QueryNode | null): string[] => {
+  if (!node) return [];
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectTextTerms);
+    case 'text':
+    case 'title':
+      return [node.value];
+    default:
+      return [];
+  }
+};
+
+// Notes matched by a saved query (smart folders). Trashed and archived notes
+// only appear when asked for.
+export const filterBySavedQuery = (notes: Note[], query: string, context: QueryContext): Note[] => {
+  const { ast } = parseSearchQuery(query, context.now);
+  if (!ast) return [];
+  const includeTrash = referencesTrash(ast);
+  const includeArchive = referencesArchive(ast);
+  return notes.filter(n => (!n.isDeleted || includeTrash) && (!n.isArchived || includeArchive) && matchesQuery(n, ast, context));
+};
@@ -1,57 +1,228 @@
 
-import { useState, useEffect, useCallback } from 'react';
-import { Note, Folder, DEFAULT_FOLDERS, Theme } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Note, Folder, DEFAULT_FOLDERS, Theme, AppSettings, DEFAULT_SETTINGS, SyncRecord, TagInfo, TagRegistry } from '../types';
+import * as repo from './noteRepository';
+import { createSearchIndex } from './searchIndex';
+import { recordRevision } from './revisionService';
+import { renameWikiLinks, findNoteByTitle } from './wikiLinks';
+import { getAncestors, getDescendantIds } from './folderTree';
+import { renameTagInNote, removeTagFromNote, renameTagInRegistry, removeTagFromRegistry } from './tagRegistry';
+import { createTabSync, SyncMessage, TabSync } from './tabSync';
+import { createSyncEngine, NoteSyncRecord, SyncEngine, SyncState } from './syncEngine';
+import { recordNoteEdit, mergeRemoteNote } from './noteMerge';
+import { needsDeletionTime, getExpiredNotes } from './trashRetention';
+import { mergeNoteContents } from './bulkActions';
+import { onBeforeLock } from './vault';
 
-const NOTES_KEY = 'gemini_notes_data';
-const FOLDERS_KEY = 'gemini_folders_data';
 const THEME_KEY = 'gemini_notes_theme';
+const SETTINGS_KEY = 'gemini_notes_settings';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const logWriteError = (e: unknown) => console.error("Failed to persist change", e);
 
 export const useStorage = () => {
   const [notes, setNotes] = useState<Note[]>([]);
   const [folders, setFolders] = useState<Folder[]>([]);
   const [theme, setTheme] = useState<Theme>('system');
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [tagRegistry, setTagRegistry] = useState<TagRegistry>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Full-text index over live (non-deleted) notes, kept in step with every mutation below
+  const searchIndexRef = useRef(createSearchIndex());
+  // Changes made here are broadcast so other open tabs stay live, and queued
+  // for the sync server
+  const syncRef = useRef<TabSync | null>(null);
+  const syncEngineRef = useRef<SyncEngine | null>(null);
+  const [syncState, setSyncState] = useState<SyncState>({ status: 'disabled', pending: 0, lastSyncedAt: null, error: null });
+  const publish = (message: SyncMessage) => {
+    syncRef.current?.post(message);
+    syncEngineRef.current?.enqueue(message);
+  };
+  // The sync engine reads the current data when seeding a new account
+  const dataRef = useRef({ notes, folders, tagRegistry });
+  dataRef.current = { notes, folders, tagRegistry };
+
+  // Applies a change another tab has already persisted
+  const applyRemoteChange = useCallback((message: SyncMessage) => {
+    switch (message.type) {
+      case 'notesChanged': {
+        const changed = new Map(message.notes.map(n => [n.id, n]));
+        message.notes.forEach(n => {
+          if (n.isDeleted) searchIndexRef.current.remove(n.id);
+          else searchIndexRef.current.add(n);
+        });
+        setNotes(prev => {
+          const existingIds = new Set(prev.map(n => n.id));
+          const added = message.notes.filter(n => !existingIds.has(n.id));
+          return [...added, ...prev.map(n => changed.get(n.id) || n)];
+        });
+        break;
+      }
+      case 'notesRemoved': {
+        const removed = new Set(message.ids);
+        message.ids.forEach(id => searchIndexRef.current.remove(id));
+        setNotes(prev => prev.filter(n => !removed.has(n.id)));
+        break;
+      }
+      case 'foldersChanged': {
+        const changed = new Map(message.folders.map(f => [f.id, f]));
+        setFolders(prev => {
+          const existingIds = new Set(prev.map(f => f.id));
+          return [...prev.map(f => changed.get(f.id) || f), ...message.folders.filter(f => !existingIds.has(f.id))];
+        });
+        break;
+      }
+      case 'foldersRemoved': {
+        const removed = new Set(message.ids);
+        setFolders(prev => prev.filter(f => !removed.has(f.id)));
+        break;
+      }
+      case 'tagsChanged':
+        setTagRegistry(message.registry);
+        break;
+      case 'cleared': {
+        const removedNotes = new Set(message.noteIds);
+        const removedFolders = new Set(message.folderIds);
+        message.noteIds.forEach(id => searchIndexRef.current.remove(id));
+        setNotes(prev => prev.filter(n => !removedNotes.has(n.id)));
+        setFolders(prev => {
+          const rest = prev.filter(f => !removedFolders.has(f.id));
+          return [...DEFAULT_FOLDERS.filter(d => !rest.some(f => f.id === d.id)), ...rest];
+        });
+        setTagRegistry(message.registry);
+        setTheme('system');
+        setSettings(DEFAULT_SETTINGS);
+        break;
+      }
+    }
+  }, []);
 
-  // Initialize
   useEffect(() => {
-    const savedNotes = localStorage.getItem(NOTES_KEY);
-    const savedFolders = localStorage.getItem(FOLDERS_KEY);
-    const savedTheme = localStorage.getItem(THEME_KEY);
+    const sync = createTabSync(applyRemoteChange);
+    syncRef.current = sync;
 
-    if (savedNotes) {
-      try {
-        const parsed = JSON.parse(savedNotes);
-        // Migration: Ensure folderIds exists and isDeleted exists
-        const migrated = parsed.map((n: any) => ({
-            ...n,
-            folderIds: Array.isArray(n.folderIds) ? n.folderIds : (n.folderId ? [n.folderId] : []),
-            isDeleted: n.isDeleted || false
-        }));
-        setNotes(migrated);
-      } catch (e) {
-        console.error("Failed to parse notes", e);
-        setNotes([]);
+    // Theme and settings live in localStorage, whose own event already crosses tabs
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === THEME_KEY && e.newValue) setTheme(e.newValue as Theme);
+      if (e.key === SETTINGS_KEY && e.newValue) {
+        try {
+          setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(e.newValue) });
+        } catch (err) {
+          console.error("Failed to parse settings", err);
+        }
       }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      sync.close();
+      syncRef.current = null;
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [applyRemoteChange]);
+
+  // Server changes are merged with local edits and persisted here, then shown
+  // in this and every other tab
+  const applySyncedRecords = useCallback(async (noteRecords: NoteSyncRecord[], folderRecords: SyncRecord<Folder>[]) => {
+    const changedNotes: Note[] = [];
+    const unsyncedNotes: Note[] = [];
+    for (const record of noteRecords) {
+      if (!record.data) continue;
+      const { note, needsPush } = await mergeRemoteNote(record, repo.migrateNote(record.data));
+      changedNotes.push(note);
+      if (needsPush) unsyncedNotes.push(note);
     }
+    const purgedNoteIds = new Set(noteRecords.filter(r => !r.data).map(r => r.id));
+    const changedFolders = folderRecords.filter(r => r.data).map(r => r.data!);
+    const removedFolderIds = folderRecords.filter(r => !r.data).map(r => r.id);
 
-    if (savedFolders) {
-      try {
-        setFolders(JSON.parse(savedFolders));
-      } catch (e) {
-        console.error("Failed to parse folders", e);
+    const messages: SyncMessage[] = [];
+    if (changedNotes.length > 0) messages.push({ type: 'notesChanged', notes: changedNotes });
+    if (purgedNoteIds.size > 0) messages.push({ type: 'notesRemoved', ids: [...purgedNoteIds] });
+    if (changedFolders.length > 0) messages.push({ type: 'foldersChanged', folders: changedFolders });
+    if (removedFolderIds.length > 0) messages.push({ type: 'foldersRemoved', ids: removedFolderIds });
+    messages.forEach(message => {
+      applyRemoteChange(message);
+      syncRef.current?.post(message);
+    });
+
+    repo.putNotes(changedNotes).catch(logWriteError);
+    if (purgedNoteIds.size > 0) repo.removeNotesWhere(n => purgedNoteIds.has(n.id)).catch(logWriteError);
+    repo.putFolders(changedFolders).catch(logWriteError);
+    repo.removeFolders(removedFolderIds).catch(logWriteError);
+    // The merge holds edits the server hasn't seen; sending it back lets every device converge
+    if (unsyncedNotes.length > 0) syncEngineRef.current?.enqueue({ type: 'notesChanged', notes: unsyncedNotes });
+  }, [applyRemoteChange]);
+
+  useEffect(() => {
+    const engine = createSyncEngine({ getLocalData: () => dataRef.current, onRemoteChanges: applySyncedRecords });
+    syncEngineRef.current = engine;
+    const unsubscribe = engine.subscribe(setSyncState);
+    return () => {
+      unsubscribe();
+      engine.stop();
+      syncEngineRef.current = null;
+    };
+  }, [applySyncedRecords]);
+
+  // Wait for the initial load so a first sync never seeds an empty account
+  useEffect(() => {
+    if (!isLoaded) return;
+    syncEngineRef.current?.configure({
+      enabled: settings.syncEnabled,
+      serverUrl: settings.syncServerUrl,
+      token: settings.syncToken
+    });
+  }, [isLoaded, settings.syncEnabled, settings.syncServerUrl, settings.syncToken]);
+
+  const syncNow = useCallback(() => syncEngineRef.current?.syncNow(), []);
+
+  // Initialize
+  useEffect(() => {
+    let cancelled = false;
+
+    repo.loadAll()
+      .then(({ notes: savedNotes, folders: savedFolders }) => {
+        if (cancelled) return;
+        savedNotes.forEach(n => { if (!n.isDeleted) searchIndexRef.current.add(n); });
+        setNotes(savedNotes);
+        setFolders(savedFolders.length > 0 ? savedFolders : DEFAULT_FOLDERS);
+      })
+      .catch(e => {
+        console.error("Failed to load notes", e);
         setFolders(DEFAULT_FOLDERS);
-      }
-    } else {
-      setFolders(DEFAULT_FOLDERS);
-      localStorage.setItem(FOLDERS_KEY, JSON.stringify(DEFAULT_FOLDERS));
-    }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    repo.getTagRegistry()
+      .then(registry => { if (!cancelled) setTagRegistry(registry); })
+      .catch(e => console.error("Failed to load tags", e));
 
+    const savedTheme = localStorage.getItem(THEME_KEY);
     if (savedTheme) {
         setTheme(savedTheme as Theme);
     }
+
+    const savedSettings = localStorage.getItem(SETTINGS_KEY);
+    if (savedSettings) {
+      try {
+        setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) });
+      } catch (e) {
+        console.error("Failed to parse settings", e);
+      }
+    }
+
+    return () => { cancelled = true; };
   }, []);
 
   // Auto-Cleanup unused folders
   useEffect(() => {
+      // Wait for the initial load, otherwise every folder looks unused
+      if (!isLoaded) return;
+
       // Calculate all folder IDs currently in use by non-deleted notes
       const usedFolderIds = new Set<string>();
       notes.forEach(n => {
@@ -60,98 +231,521 @@ export const useStorage = () => {
           }
       });
 
-      setFolders(prev => {
-          // Filter out any folders that are not in the used set
-          const newFolders = prev.filter(f => usedFolderIds.has(f.id));
-          
-          // Only update state and localStorage if there is an actual change
-          if (newFolders.length !== prev.length) {
-              localStorage.setItem(FOLDERS_KEY, JSON.stringify(newFolders));
-              return newFolders;
-          }
-          return prev;
-      });
-  }, [notes]);
+      // Parents of used folders stay so the path to them survives.
+      // Smart folders have no members by design, so they are never cleaned up,
+      // and neither are system folders or ones marked to be kept.
+      const { folders: current } = dataRef.current;
+      current.filter(f => f.isSystem || f.keepWhenEmpty).forEach(f => usedFolderIds.add(f.id));
+      const keptIds = new Set<string>();
+      usedFolderIds.forEach(id => getAncestors(current, id).forEach(f => keptIds.add(f.id)));
+      const isKept = (f: Folder) => !!f.query || keptIds.has(f.id);
+
+      // Only update state and storage if there is an actual change
+      const removedIds = current.filter(f => !isKept(f)).map(f => f.id);
+      if (removedIds.length === 0) return;
+      const removed = new Set(removedIds);
+      setFolders(prev => prev.filter(f => !removed.has(f.id)));
+      repo.removeFolders(removedIds).catch(logWriteError);
+  }, [notes, isLoaded]);
+
+  // Trash retention, checked on startup and then hourly for long-lived tabs
+  useEffect(() => {
+    if (!isLoaded) return;
+    const purge = () => {
+      const { notes: current } = dataRef.current;
+      writeNotes(current.filter(needsDeletionTime).map(n => ({ ...n, deletedAt: Date.now() })));
+      permanentlyDeleteNotes(getExpiredNotes(current, settings.trashRetentionDays).map(n => n.id));
+    };
+    purge();
+    const timer = setInterval(purge, PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoaded, settings.trashRetentionDays]);
 
   const saveNote = useCallback((note: Note) => {
+    const { notes: current } = dataRef.current;
+    const previous = current.find(n => n.id === note.id);
+    recordNoteEdit(note, previous);
     setNotes(prev => {
       const existingIndex = prev.findIndex(n => n.id === note.id);
-      let newNotes;
-      if (existingIndex >= 0) {
-        newNotes = [...prev];
-        newNotes[existingIndex] = note;
-      } else {
-        newNotes = [note, ...prev];
-      }
-      localStorage.setItem(NOTES_KEY, JSON.stringify(newNotes));
+      if (existingIndex < 0) return [note, ...prev];
+      const newNotes = [...prev];
+      newNotes[existingIndex] = note;
       return newNotes;
     });
+    if (note.isDeleted) searchIndexRef.current.remove(note.id);
+    else searchIndexRef.current.add(note);
+    publish({ type: 'notesChanged', notes: [note] });
+    repo.putNote(note)
+      .then(() => recordRevision(note))
+      .catch(logWriteError);
+
+    // Keep [[wiki links]] in other notes pointing at a renamed note, unless
+    // another live note still answers to the old title
+    const previousTitle = previous?.title || '';
+    const others = current.filter(n => n.id !== note.id);
+    if (previousTitle.trim() && note.title.trim() && previousTitle !== note.title && !findNoteByTitle(others, previousTitle)) {
+      writeNotes(others.flatMap(n => {
+        const content = renameWikiLinks(n.content, previousTitle, note.title);
+        return content === n.content ? [] : [{ ...n, content }];
+      }));
+    }
   }, []);
 
-  // Soft delete
-  const deleteNote = useCallback((id: string) => {
-    setNotes(prev => {
-      const newNotes = prev.map(n => n.id === id ? { ...n, isDeleted: true } : n);
-      localStorage.setItem(NOTES_KEY, JSON.stringify(newNotes));
-      return newNotes;
-    });
+  // Partial update, used for background changes such as AI analysis results
+  const updateNote = useCallback((id: string, patch: Partial<Note>) => {
+    const previous = dataRef.current.notes.find(n => n.id === id);
+    if (previous) {
+      const updated = { ...previous, ...patch };
+      if ('content' in patch || 'tags' in patch || 'folderIds' in patch) recordNoteEdit(updated, previous);
+      if (!updated.isDeleted) searchIndexRef.current.add(updated);
+      publish({ type: 'notesChanged', notes: [updated] });
+    }
+    setNotes(prev => prev.map(n => n.id === id ? { ...n, ...patch } : n));
+    repo.patchNote(id, patch).catch(logWriteError);
   }, []);
 
-  // Restore from trash
-  const restoreNote = useCallback((id: string) => {
-    setNotes(prev => {
-      const newNotes = prev.map(n => n.id === id ? { ...n, isDeleted: false } : n);
-      localStorage.setItem(NOTES_KEY, JSON.stringify(newNotes));
-      return newNotes;
+  // The cleanup drops folders once no live note is in them. An undo that brings
+  // notes back puts their folders back too, from a snapshot taken before.
+  const reviveFolders = (snapshot: Folder[], restored: Note[]) => {
+    const present = new Set(dataRef.current.folders.map(f => f.id));
+    const missing = new Map<string, Folder>();
+    restored.forEach(n => n.folderIds.forEach(id => getAncestors(snapshot, id).forEach(f => {
+      if (!present.has(f.id)) missing.set(f.id, f);
+    })));
+    if (missing.size === 0) return;
+    const revived = [...missing.values()];
+    setFolders(prev => [...prev, ...revived.filter(f => !prev.some(p => p.id === f.id))]);
+    repo.putFolders(revived).catch(logWriteError);
+    publish({ type: 'foldersChanged', folders: revived });
+  };
+
+  // Applies a patch per note id. Returns an undo that puts the patched fields
+  // back as they were.
+  const patchNotes = (patches: Map<string, Partial<Note>>): (() => void) => {
+    const folderSnapshot = dataRef.current.folders;
+    const previous = dataRef.current.notes.filter(n => patches.has(n.id));
+    if (previous.length === 0) return () => {};
+    const changed = previous.map(n => ({ ...n, ...patches.get(n.id) }));
+    changed.forEach(n => {
+      if (n.isDeleted) searchIndexRef.current.remove(n.id);
+      else searchIndexRef.current.add(n);
     });
+    const changedById = new Map(changed.map(n => [n.id, n]));
+    setNotes(prev => prev.map(n => changedById.get(n.id) || n));
+    changed.forEach(n => repo.patchNote(n.id, patches.get(n.id)!).catch(logWriteError));
+    publish({ type: 'notesChanged', notes: changed });
+
+    const originals = new Map<string, Partial<Note>>(previous.map(n => {
+      const fields = Object.keys(patches.get(n.id)!) as (keyof Note)[];
+      return [n.id, Object.fromEntries(fields.map(field => [field, n[field]])) as Partial<Note>];
+    }));
+    return () => {
+      patchNotes(originals);
+      reviveFolders(folderSnapshot, previous);
+    };
+  };
+
+  // Soft delete. Returns an undo.
+  const deleteNotes = useCallback((ids: string[]) => {
+    const patch = { isDeleted: true, deletedAt: Date.now() };
+    return patchNotes(new Map(ids.map(id => [id, patch])));
   }, []);
 
-  // Hard delete
-  const permanentlyDeleteNote = useCallback((id: string) => {
-    setNotes(prev => {
-        const newNotes = prev.filter(n => n.id !== id);
-        localStorage.setItem(NOTES_KEY, JSON.stringify(newNotes));
-        return newNotes;
-    });
+  const deleteNote = useCallback((id: string) => deleteNotes([id]), [deleteNotes]);
+
+  // Restore from trash. Returns an undo, which keeps the original deletion times.
+  const restoreNotes = useCallback((ids: string[]) => {
+    const patch = { isDeleted: false, deletedAt: undefined };
+    return patchNotes(new Map(ids.map(id => [id, patch])));
   }, []);
 
-  const emptyTrash = useCallback(() => {
-    setNotes(prev => {
-        const newNotes = prev.filter(n => !n.isDeleted);
-        localStorage.setItem(NOTES_KEY, JSON.stringify(newNotes));
-        return newNotes;
+  const restoreNote = useCallback((id: string) => restoreNotes([id]), [restoreNotes]);
+
+  // Same patch for every note of `ids`, for flags such as pinned or archived
+  // and for the manual order. Returns an undo.
+  const updateNoteFields = useCallback((ids: string[], patch: Partial<Note>) => {
+    return patchNotes(new Map(ids.map(id => [id, patch])));
+  }, []);
+
+  // Permanent removals can be held back for `holdMs`: the data leaves the UI at
+  // once but stays stored, and the returned function brings it back until the
+  // time is up (it returns false after that). Anything still held is written
+  // out when the page goes away or the app is locked.
+  const pendingRemovalsRef = useRef(new Map<object, () => void>());
+
+  useEffect(() => {
+    const pending = pendingRemovalsRef.current;
+    const flush = () => {
+      const commits = [...pending.values()];
+      pending.clear();
+      commits.forEach(commit => commit());
+    };
+    window.addEventListener('pagehide', flush);
+    // Before the key goes, while the writes can still be sealed
+    const unsubscribe = onBeforeLock(flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      unsubscribe();
+      flush();
+    };
+  }, []);
+
+  const holdRemoval = (commit: () => void, restore: () => void, holdMs: number): (() => boolean) => {
+    if (holdMs <= 0) {
+      commit();
+      return () => false;
+    }
+    const pending = pendingRemovalsRef.current;
+    const key = {};
+    const timer = setTimeout(() => {
+      pending.delete(key);
+      commit();
+    }, holdMs);
+    pending.set(key, () => {
+      clearTimeout(timer);
+      commit();
     });
+    return () => {
+      if (!pending.has(key)) return false;
+      clearTimeout(timer);
+      pending.delete(key);
+      restore();
+      return true;
+    };
+  };
+
+  // Hard delete
+  const permanentlyDeleteNotes = useCallback((ids: string[], holdMs = 0) => {
+    const removing = new Set(ids);
+    const removed = dataRef.current.notes.filter(n => removing.has(n.id));
+    if (removed.length === 0) return () => false;
+    const removedIds = removed.map(n => n.id);
+    setNotes(prev => prev.filter(n => !removing.has(n.id)));
+    removedIds.forEach(id => searchIndexRef.current.remove(id));
+    return holdRemoval(
+      () => {
+        publish({ type: 'notesRemoved', ids: removedIds });
+        repo.removeNotes(removedIds).catch(logWriteError);
+      },
+      () => {
+        removed.forEach(n => { if (!n.isDeleted) searchIndexRef.current.add(n); });
+        setNotes(prev => [...removed, ...prev].sort((a, b) => b.updatedAt - a.updatedAt));
+      },
+      holdMs
+    );
   }, []);
 
-  const createFolder = useCallback((name: string) => {
+  const permanentlyDeleteNote = useCallback((id: string, holdMs = 0) => permanentlyDeleteNotes([id], holdMs), [permanentlyDeleteNotes]);
+
+  const emptyTrash = useCallback((holdMs = 0) => {
+    return permanentlyDeleteNotes(dataRef.current.notes.filter(n => n.isDeleted).map(n => n.id), holdMs);
+  }, [permanentlyDeleteNotes]);
+
+  // Folders made on their own, rather than by filing a note, pass keepWhenEmpty
+  // so the cleanup doesn't remove them before anything is put in them
+  const createFolder = useCallback((name: string, parentId?: string, keepWhenEmpty?: boolean) => {
     const newFolder: Folder = {
       id: crypto.randomUUID(),
       name,
-      icon: 'folder'
+      icon: 'folder',
+      ...(parentId ? { parentId } : {}),
+      ...(keepWhenEmpty ? { keepWhenEmpty } : {})
     };
-    setFolders(prev => {
-      const newFolders = [...prev, newFolder];
-      localStorage.setItem(FOLDERS_KEY, JSON.stringify(newFolders));
-      return newFolders;
-    });
+    setFolders(prev => [...prev, newFolder]);
+    publish({ type: 'foldersChanged', folders: [newFolder] });
+    repo.putFolder(newFolder).catch(logWriteError);
     return newFolder;
   }, []);
 
+  const createSmartFolder = useCallback((name: string, query: string) => {
+    const newFolder: Folder = {
+      id: crypto.randomUUID(),
+      name,
+      icon: 'folder-search',
+      query
+    };
+    setFolders(prev => [...prev, newFolder]);
+    publish({ type: 'foldersChanged', folders: [newFolder] });
+    repo.putFolder(newFolder).catch(logWriteError);
+    return newFolder;
+  }, []);
+
+  // Returns an undo
+  const updateFolder = useCallback((id: string, patch: Partial<Folder>) => {
+    const previous = dataRef.current.folders.find(f => f.id === id);
+    setFolders(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+    if (previous) {
+      const updated = { ...previous, ...patch };
+      repo.putFolder(updated).catch(logWriteError);
+      publish({ type: 'foldersChanged', folders: [updated] });
+    }
+    return () => {
+      if (!previous) return;
+      setFolders(prev => prev.map(f => f.id === id ? previous : f));
+      repo.putFolder(previous).catch(logWriteError);
+      publish({ type: 'foldersChanged', folders: [previous] });
+    };
+  }, []);
+
+  // Bulk write for changes that rewrite many notes at once
+  const writeNotes = (changed: Note[]) => {
+    if (changed.length === 0) return;
+    const previous = new Map<string, Note>(dataRef.current.notes.map(n => [n.id, n]));
+    changed.forEach(n => {
+      recordNoteEdit(n, previous.get(n.id));
+      if (!n.isDeleted) searchIndexRef.current.add(n);
+    });
+    const changedById = new Map(changed.map(n => [n.id, n]));
+    setNotes(prev => prev.map(n => changedById.get(n.id) || n));
+    repo.putNotes(changed).catch(logWriteError);
+    publish({ type: 'notesChanged', notes: changed });
+  };
+
+  // Applies `rewrite` to every note and returns the ones it changed, as they were
+  const rewriteNotes = (rewrite: (note: Note) => Note) => {
+    const before: Note[] = [];
+    const after: Note[] = [];
+    dataRef.current.notes.forEach(n => {
+      const updated = rewrite(n);
+      if (updated === n) return;
+      before.push(n);
+      after.push(updated);
+    });
+    writeNotes(after);
+    return { before, after };
+  };
+
+  // Puts back `fields` of notes a bulk change rewrote, skipping any changed since
+  const restoreRewrittenNotes = (before: Note[], after: Note[], fields: (keyof Note)[]) => {
+    const current = new Map<string, Note>(dataRef.current.notes.map(n => [n.id, n]));
+    const restored = before.flatMap((n, i) => {
+      const now = current.get(n.id);
+      const untouched = now && fields.every(field => JSON.stringify(now[field]) === JSON.stringify(after[i][field]));
+      return untouched ? [{ ...now, ...Object.fromEntries(fields.map(field => [field, n[field]])) }] : [];
+    });
+    writeNotes(restored);
+  };
+
+  // Files every note of `ids` under `targetId` instead (or under nothing when
+  // null), keeping their other folders
+  const refileNotes = (ids: Set<string>, targetId: string | null) => {
+    return rewriteNotes(n => {
+      if (!n.folderIds.some(id => ids.has(id))) return n;
+      const kept = n.folderIds.filter(id => !ids.has(id));
+      return { ...n, folderIds: targetId && !kept.includes(targetId) ? [...kept, targetId] : kept };
+    });
+  };
+
+  // Subfolders of a removed folder move up to its parent. Returns the folders
+  // it removed or moved, as they were.
+  const removeFolder = (folder: Folder, targetId: string | null): Folder[] => {
+    const all = dataRef.current.folders;
+    // A target inside the removed folder takes its place in the tree
+    const target = targetId ? all.find(f => f.id === targetId) : undefined;
+    const moved: Folder[] = [];
+    if (target && getDescendantIds(all, folder.id).has(target.id)) {
+      moved.push({ ...target, parentId: folder.parentId });
+    }
+    all.forEach(f => {
+      if (f.parentId !== folder.id || f.id === target?.id) return;
+      moved.push({ ...f, parentId: target ? target.id : folder.parentId });
+    });
+
+    const movedById = new Map(moved.map(f => [f.id, f]));
+    setFolders(prev => prev.filter(f => f.id !== folder.id).map(f => movedById.get(f.id) || f));
+    if (moved.length > 0) {
+      repo.putFolders(moved).catch(logWriteError);
+      publish({ type: 'foldersChanged', folders: moved });
+    }
+    publish({ type: 'foldersRemoved', ids: [folder.id] });
+    repo.removeFolders([folder.id]).catch(logWriteError);
+    return [folder, ...all.filter(f => movedById.has(f.id))];
+  };
+
+  // Applies `rewrite` to the notes of `ids`, for bulk edits of a selection.
+  // Returns an undo.
+  const updateNotes = useCallback((ids: string[], rewrite: (note: Note) => Note) => {
+    const folderSnapshot = dataRef.current.folders;
+    const selected = new Set(ids);
+    const { before, after } = rewriteNotes(n => selected.has(n.id) ? rewrite(n) : n);
+    return () => {
+      restoreRewrittenNotes(before, after, ['content', 'tags', 'folderIds']);
+      reviveFolders(folderSnapshot, before);
+    };
+  }, []);
+
+  // Combines notes into a new one and moves the originals to the trash.
+  // Returns the new note's id and an undo.
+  const mergeNotes = useCallback((ids: string[]) => {
+    const selected = new Set(ids);
+    const sources = dataRef.current.notes.filter(n => selected.has(n.id) && !n.isDeleted);
+    if (sources.length < 2) return null;
+    const now = Date.now();
+    const merged: Note = { id: crypto.randomUUID(), ...mergeNoteContents(sources), createdAt: now, updatedAt: now, isDeleted: false };
+    saveNote(merged);
+    const undoDelete = deleteNotes(sources.map(n => n.id));
+    return {
+      id: merged.id,
+      // Once the merged note has been edited, deleting it would lose that work
+      undo: () => {
+        const current = dataRef.current.notes.find(n => n.id === merged.id);
+        if (!current || current.updatedAt !== merged.updatedAt) return false;
+        undoDelete();
+        permanentlyDeleteNotes([merged.id]);
+      }
+    };
+  }, [saveNote, deleteNotes, permanentlyDeleteNotes]);
+
+  // Puts back the folders a delete or merge touched and the folder lists of
+  // the notes it refiled
+  const undoFolderChange = (originals: Folder[], before: Note[], after: Note[]) => () => {
+    const originalsById = new Map(originals.map(f => [f.id, f]));
+    setFolders(prev => [
+      ...prev.map(f => originalsById.get(f.id) || f),
+      ...originals.filter(f => !prev.some(p => p.id === f.id))
+    ]);
+    repo.putFolders(originals).catch(logWriteError);
+    publish({ type: 'foldersChanged', folders: originals });
+    restoreRewrittenNotes(before, after, ['folderIds']);
+  };
+
+  // Notes keep their other folders; system folders can't be deleted. Returns an undo.
   const deleteFolder = useCallback((id: string) => {
+    const folder = dataRef.current.folders.find(f => f.id === id);
+    if (!folder || folder.isSystem) return () => {};
+    const { before, after } = refileNotes(new Set([id]), null);
+    return undoFolderChange(removeFolder(folder, null), before, after);
+  }, []);
+
+  // Moves every note and subfolder of `sourceId` into `targetId`, then removes
+  // it. Returns an undo.
+  const mergeFolders = useCallback((sourceId: string, targetId: string) => {
+    const { folders: all } = dataRef.current;
+    const source = all.find(f => f.id === sourceId);
+    const target = all.find(f => f.id === targetId);
+    if (!source || !target || source.id === target.id || source.isSystem || source.query || target.query) return () => {};
+    const { before, after } = refileNotes(new Set([source.id]), target.id);
+    return undoFolderChange(removeFolder(source, target.id), before, after);
+  }, []);
+
+  // The ref is updated right away so a rename followed by an edit in the same
+  // event sees the renamed registry
+  const saveTagRegistry = (registry: TagRegistry) => {
+    dataRef.current = { ...dataRef.current, tagRegistry: registry };
+    setTagRegistry(registry);
+    publish({ type: 'tagsChanged', registry });
+    repo.putTagRegistry(registry).catch(logWriteError);
+  };
+
+  // Empty fields are dropped, and a tag with nothing left leaves the
+  // registry. Returns an undo.
+  const updateTagInfo = useCallback((tag: string, info: TagInfo) => {
+    const registry = dataRef.current.tagRegistry;
+    const { [tag]: _previous, ...rest } = registry;
+    const cleaned: TagInfo = {
+      ...(info.color ? { color: info.color } : {}),
+      ...(info.description?.trim() ? { description: info.description.trim() } : {})
+    };
+    saveTagRegistry(Object.keys(cleaned).length > 0 ? { ...rest, [tag]: cleaned } : rest);
+    return () => saveTagRegistry(registry);
+  }, []);
+
+  // Puts back the tags and text of notes a tag operation rewrote, along with
+  // the registry as it was
+  const undoTagChange = (before: Note[], after: Note[], registry: TagRegistry) => () => {
+    restoreRewrittenNotes(before, after, ['content', 'tags']);
+    saveTagRegistry(registry);
+  };
+
+  // Renaming onto a tag that already exists merges the two. Returns an undo.
+  const renameTag = useCallback((from: string, to: string) => {
+    const registry = dataRef.current.tagRegistry;
+    const { before, after } = rewriteNotes(n => renameTagInNote(n, from, to));
+    saveTagRegistry(renameTagInRegistry(registry, from, to));
+    return undoTagChange(before, after, registry);
+  }, []);
+
+  // Removes the tag from every note, trashed ones included. Returns an undo.
+  const deleteTag = useCallback((tag: string) => {
+    const registry = dataRef.current.tagRegistry;
+    const { before, after } = rewriteNotes(n => removeTagFromNote(n, tag));
+    saveTagRegistry(removeTagFromRegistry(registry, tag));
+    return undoTagChange(before, after, registry);
+  }, []);
+
+  // Bulk write for imports; notes and folders with existing ids are replaced
+  const importData = useCallback((importedNotes: Note[], importedFolders: Folder[]) => {
+    const importedIds = new Set(importedNotes.map(n => n.id));
+    const existing = new Map<string, Note>(dataRef.current.notes.map(n => [n.id, n]));
+    importedNotes.forEach(n => recordNoteEdit(n, existing.get(n.id)));
+    setNotes(prev => [...importedNotes, ...prev.filter(n => !importedIds.has(n.id))]
+      .sort((a, b) => b.updatedAt - a.updatedAt));
     setFolders(prev => {
-        const newFolders = prev.filter(f => f.id !== id);
-        localStorage.setItem(FOLDERS_KEY, JSON.stringify(newFolders));
-        return newFolders;
+      const importedFolderIds = new Set(importedFolders.map(f => f.id));
+      return [...prev.filter(f => !importedFolderIds.has(f.id)), ...importedFolders];
+    });
+    importedNotes.forEach(n => {
+      if (n.isDeleted) searchIndexRef.current.remove(n.id);
+      else searchIndexRef.current.add(n);
     });
+    repo.putNotes(importedNotes).catch(logWriteError);
+    repo.putFolders(importedFolders).catch(logWriteError);
+    if (importedNotes.length > 0) publish({ type: 'notesChanged', notes: importedNotes });
+    if (importedFolders.length > 0) publish({ type: 'foldersChanged', folders: importedFolders });
   }, []);
 
-  const clearAllData = useCallback(() => {
-      localStorage.removeItem(NOTES_KEY);
-      localStorage.removeItem(FOLDERS_KEY);
-      localStorage.removeItem(THEME_KEY);
+  // Can be held back like permanent deletes; theme and settings reset once it
+  // goes through. Only what existed when it started is removed, so anything
+  // created or synced in while it is held stays, and undo merges back around it.
+  const clearAllData = useCallback((holdMs = 0) => {
+      const previous = dataRef.current;
+      // Kept means written since: not one of the records cleared, nor a default
+      // folder shown again in their place. Without a hold the commit runs before
+      // state is re-rendered, so this goes by identity rather than by id.
+      const previousNotes = new Set(previous.notes);
+      const previousFolders = new Set(previous.folders);
+      const isKeptFolder = (f: Folder) => !previousFolders.has(f) && !DEFAULT_FOLDERS.includes(f);
+      searchIndexRef.current.clear();
       setNotes([]);
       setFolders(DEFAULT_FOLDERS);
-      setTheme('system');
+      setTagRegistry({});
+      return holdRemoval(
+        () => {
+          const current = dataRef.current;
+          const keptNotes = new Set(current.notes.filter(n => !previousNotes.has(n)).map(n => n.id));
+          const keptFolders = new Set(current.folders.filter(isKeptFolder).map(f => f.id));
+          const noteIds = previous.notes.map(n => n.id).filter(id => !keptNotes.has(id));
+          const folderIds = previous.folders.map(f => f.id).filter(id => !keptFolders.has(id));
+          const registry = Object.fromEntries(Object.entries(current.tagRegistry)
+            .filter(([tag, info]) => previous.tagRegistry[tag] !== info));
+          localStorage.removeItem(THEME_KEY);
+          localStorage.removeItem(SETTINGS_KEY);
+          setTheme('system');
+          setSettings(DEFAULT_SETTINGS);
+          // Other tabs only drop what is really gone
+          repo.clearAll(noteIds, folderIds, registry)
+            .then(() => publish({ type: 'cleared', noteIds, folderIds, registry }))
+            .catch(logWriteError);
+        },
+        () => {
+          const current = dataRef.current;
+          const currentNoteIds = new Set(current.notes.map(n => n.id));
+          const restoredNotes = previous.notes.filter(n => !currentNoteIds.has(n.id));
+          restoredNotes.forEach(n => { if (!n.isDeleted) searchIndexRef.current.add(n); });
+          setNotes(prev => [...prev, ...restoredNotes.filter(n => !prev.some(p => p.id === n.id))]
+            .sort((a, b) => b.updatedAt - a.updatedAt));
+          setFolders(prev => {
+            const kept = prev.filter(isKeptFolder);
+            return [...previous.folders.filter(f => !kept.some(k => k.id === f.id)), ...kept];
+          });
+          // Tags edited while held were saved without the old entries
+          const registry = { ...previous.tagRegistry, ...current.tagRegistry };
+          setTagRegistry(registry);
+          repo.putTagRegistry(registry).catch(logWriteError);
+          publish({ type: 'tagsChanged', registry });
+        },
+        holdMs
+      );
   }, []);
 
   const saveTheme = useCallback((newTheme: Theme) => {
@@ -159,18 +753,50 @@ export const useStorage = () => {
       localStorage.setItem(THEME_KEY, newTheme);
   }, []);
 
+  // Ranked ids of live notes matching the query, best first
+  const searchNotes = useCallback((query: string) => searchIndexRef.current.search(query), []);
+
+  const saveSettings = useCallback((patch: Partial<AppSettings>) => {
+      setSettings(prev => {
+          const next = { ...prev, ...patch };
+          localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+          return next;
+      });
+  }, []);
+
   return {
     notes,
     folders,
     theme,
+    settings,
+    isLoaded,
     saveNote,
+    updateNote,
     deleteNote,
+    deleteNotes,
+    updateNotes,
+    updateNoteFields,
+    mergeNotes,
     restoreNote,
+    restoreNotes,
     permanentlyDeleteNote,
+    permanentlyDeleteNotes,
     emptyTrash,
     createFolder,
+    createSmartFolder,
+    updateFolder,
     deleteFolder,
+    mergeFolders,
+    tagRegistry,
+    updateTagInfo,
+    renameTag,
+    deleteTag,
+    importData,
     clearAllData,
-    saveTheme
+    saveTheme,
+    saveSettings,
+    searchNotes,
+    syncState,
+    syncNow
   };
 };
@@ -0,0 +1,241 @@
+import { Note, Folder, SyncRecord, SyncQueueItem } from '../types';
+import * as repo from './noteRepository';
+import { SyncMessage } from './tabSync';
+import { NoteCrdt } from './crdt';
+
+// Client side of the self-hosted sync protocol (see server/syncServer.js).
+// Local changes are queued in IndexedDB, so they survive reloads and wait out
+// offline periods. Each sync pushes the queue and pulls every record the server
+// accepted since the last revision seen. The server keeps the newest record,
+// but notes carry their merge state, so content, tags and folders edited on
+// two devices are merged here instead (see noteMerge.ts).
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: number;
+  lastSyncedAt: number | null;
+  error: string | null;
+}
+
+export interface SyncConfig {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+}
+
+// Notes travel with their merge state, read when the queue is sent
+export type NoteSyncRecord = SyncRecord<Note> & { crdt?: NoteCrdt };
+
+interface SyncResponse {
+  rev: number;
+  notes: NoteSyncRecord[];
+  folders: SyncRecord<Folder>[];
+}
+
+export interface SyncEngine {
+  configure: (config: SyncConfig) => void;
+  enqueue: (message: SyncMessage) => void;
+  syncNow: () => Promise<void>;
+  subscribe: (listener: (state: SyncState) => void) => () => void;
+  stop: () => void;
+}
+
+interface SyncEngineOptions {
+  // Everything local, queued once when an account is first synced
+  getLocalData: () => { notes: Note[]; folders: Folder[] };
+  onRemoteChanges: (notes: NoteSyncRecord[], folders: SyncRecord<Folder>[]) => Promise<void>;
+}
+
+const REV_KEY = 'syncRev';
+const ACCOUNT_KEY = 'syncAccount';
+const PUSH_DELAY_MS = 1500;
+const PULL_INTERVAL_MS = 30_000;
+
+const noteItem = (record: SyncRecord<Note>): SyncQueueItem => ({ key: `note:${record.id}`, kind: 'note', record });
+const folderItem = (record: SyncRecord<Folder>): SyncQueueItem => ({ key: `folder:${record.id}`, kind: 'folder', record });
+
+// Record time is when the change happened here, not `Note.updatedAt`, because
+// background patches and trash moves keep the note's own timestamp
+const toQueueItems = (message: SyncMessage): SyncQueueItem[] => {
+  const now = Date.now();
+  switch (message.type) {
+    case 'notesChanged':
+      return message.notes.map(n => noteItem({ id: n.id, updatedAt: now, data: n }));
+    case 'notesRemoved':
+      return message.ids.map(id => noteItem({ id, updatedAt: now, data: null }));
+    case 'foldersChanged':
+      return message.folders.map(f => folderItem({ id: f.id, updatedAt: now, data: f }));
+    case 'foldersRemoved':
+      return message.ids.map(id => folderItem({ id, updatedAt: now, data: null }));
+    case 'tagsChanged':
+      // Tag colors and descriptions stay on this device
+      return [];
+    case 'cleared':
+      // Resetting this device never wipes the account
+      return [];
+  }
+};
+
+export const createSyncEngine = ({ getLocalData, onRemoteChanges }: SyncEngineOptions): SyncEngine => {
+  let config: SyncConfig = { enabled: false, serverUrl: '', token: '' };
+  let state: SyncState = { status: 'disabled', pending: 0, lastSyncedAt: null, error: null };
+  const listeners = new Set<(state: SyncState) => void>();
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  let pullTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setState = (patch: Partial<SyncState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const isActive = () => config.enabled && !!config.serverUrl.trim() && !!config.token.trim();
+
+  // A new server or token is a different account: start over and upload everything
+  const prepareAccount = async () => {
+    const account = `${config.serverUrl.trim().replace(/\/+$/, '')}|${config.token.trim()}`;
+    if (await repo.getMeta<string>(ACCOUNT_KEY) === account) return;
+    const { notes, folders } = getLocalData();
+    await repo.clearSyncQueue();
+    await repo.putSyncQueueItems([
+      ...notes.map(n => noteItem({ id: n.id, updatedAt: n.updatedAt, data: n })),
+      ...folders.map(f => folderItem({ id: f.id, updatedAt: 0, data: f }))
+    ]);
+    await repo.putMeta(REV_KEY, 0);
+    await repo.putMeta(ACCOUNT_KEY, account);
+  };
+
+  const runSync = async () => {
+    if (!isActive()) {
+      setState({ status: 'disabled', error: null });
+      return;
+    }
+    if (!navigator.onLine) {
+      setState({ status: 'offline', pending: (await repo.getSyncQueue()).length });
+      return;
+    }
+
+    setState({ status: 'syncing', error: null });
+    try {
+      await prepareAccount();
+      const queue = await repo.getSyncQueue();
+      const since = (await repo.getMeta<number>(REV_KEY)) || 0;
+      const noteRecords: NoteSyncRecord[] = await Promise.all(queue
+        .filter(item => item.kind === 'note')
+        .map(async item => item.record.data
+          ? { ...(item.record as SyncRecord<Note>), crdt: await repo.getNoteCrdt(item.record.id) }
+          : item.record as SyncRecord<Note>));
+
+      const response = await fetch(`${config.serverUrl.trim().replace(/\/+$/, '')}/sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.token.trim()}` },
+        body: JSON.stringify({
+          since,
+          notes: noteRecords,
+          folders: queue.filter(item => item.kind === 'folder').map(item => item.record)
+        })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Server responded with ${response.status}`);
+      }
+      const result: SyncResponse = await response.json();
+
+      await repo.removeSyncedItems(queue);
+      // Changes made while the request was in flight are newer than anything pulled
+      const pending = await repo.getSyncQueue();
+      const pendingKeys = new Set(pending.map(item => item.key));
+      const sent = new Map(queue.map(item => [item.key, item.record]));
+      const isNews = (key: string, record: SyncRecord<Note | Folder>) => {
+        if (pendingKeys.has(key)) return false;
+        const own = sent.get(key);
+        return !own || own.updatedAt !== record.updatedAt;
+      };
+
+      const notes = result.notes.filter(r => isNews(`note:${r.id}`, r));
+      const folders = result.folders.filter(r => isNews(`folder:${r.id}`, r));
+      if (notes.length > 0 || folders.length > 0) await onRemoteChanges(notes, folders);
+
+      await repo.putMeta(REV_KEY, result.rev);
+      setState({ status: 'idle', pending: pending.length, lastSyncedAt: Date.now(), error: null });
+    } catch (e) {
+      console.error("Sync failed", e);
+      const pending = await repo.getSyncQueue().then(q => q.length).catch(() => state.pending);
+      setState({
+        status: navigator.onLine ? 'error' : 'offline',
+        pending,
+        error: e instanceof Error ? e.message : 'Sync failed'
+      });
+    }
+  };
+
+  // Only one sync at a time; requests during a run trigger one more run after it
+  const syncNow = async () => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        await runSync();
+      } while (rerun);
+    })().finally(() => { running = null; });
+    return running;
+  };
+
+  const schedulePush = () => {
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => {
+      pushTimer = null;
+      syncNow();
+    }, PUSH_DELAY_MS);
+  };
+
+  const handleOnline = () => syncNow();
+  const handleOffline = () => { if (isActive()) setState({ status: 'offline' }); };
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  return {
+    configure: (next) => {
+      config = next;
+      if (pullTimer) clearInterval(pullTimer);
+      pullTimer = null;
+      if (isActive()) {
+        pullTimer = setInterval(syncNow, PULL_INTERVAL_MS);
+        syncNow();
+      } else {
+        setState({ status: 'disabled', error: null });
+      }
+    },
+    enqueue: (message) => {
+      const items = toQueueItems(message);
+      if (items.length === 0) return;
+      // Queue even while sync is off, so enabling it later loses nothing
+      repo.putSyncQueueItems(items)
+        .then(() => repo.getSyncQueue())
+        .then(queue => {
+          setState({ pending: queue.length });
+          if (isActive()) schedulePush();
+        })
+        .catch(e => console.error("Failed to queue change for sync", e));
+    },
+    syncNow,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(state);
+      return () => { listeners.delete(listener); };
+    },
+    stop: () => {
+      if (pushTimer) clearTimeout(pushTimer);
+      if (pullTimer) clearInterval(pullTimer);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      listeners.clear();
+    }
+  };
+};
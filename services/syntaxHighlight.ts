@@ -0,0 +1,158 @@
+// Lightweight tokenizer for code blocks. It only distinguishes the handful of
+// token kinds a reader cares about, which is enough for notes.
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'literal';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+interface LanguageSpec {
+  lineComment?: string;
+  blockComment?: [string, string];
+  quotes: string[];
+  keywords: Set<string>;
+  literals: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_LIKE_LITERALS = words('true false null undefined NaN Infinity this super');
+
+const JS: LanguageSpec = {
+  lineComment: '//',
+  blockComment: ['/*', '*/'],
+  quotes: ['"', "'", '`'],
+  keywords: words('as async await break case catch class const continue debugger default delete do else enum export extends finally for from function get if implements import in instanceof interface let new of package private protected public readonly return set static switch throw try type typeof var void while with yield'),
+  literals: C_LIKE_LITERALS
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  js: JS,
+  javascript: JS,
+  jsx: JS,
+  ts: JS,
+  typescript: JS,
+  tsx: JS,
+  json: { quotes: ['"'], keywords: new Set(), literals: words('true false null') },
+  python: {
+    lineComment: '#',
+    quotes: ['"', "'"],
+    keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield'),
+    literals: words('True False None self')
+  },
+  bash: {
+    lineComment: '#',
+    quotes: ['"', "'"],
+    keywords: words('if then else elif fi for while do done case esac in function return export local echo cd exit'),
+    literals: new Set()
+  },
+  css: {
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: words('important media import from to keyframes'),
+    literals: new Set()
+  },
+  go: {
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', '`', "'"],
+    keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var'),
+    literals: words('true false nil iota')
+  },
+  java: {
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: words('abstract assert boolean break byte case catch char class const continue default do double else enum extends final finally float for if implements import instanceof int interface long new package private protected public return short static switch synchronized throw throws try void volatile while var record'),
+    literals: C_LIKE_LITERALS
+  },
+  rust: {
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+    keywords: words('as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return static struct trait type unsafe use where while'),
+    literals: words('true false self Self None Some Ok Err')
+  },
+  sql: {
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    keywords: words('select from where insert into values update set delete create table drop alter add join left right inner outer on group by order having limit offset and or not as distinct union primary key index'),
+    literals: words('null true false')
+  }
+};
+
+LANGUAGES.sh = LANGUAGES.bash;
+LANGUAGES.shell = LANGUAGES.bash;
+LANGUAGES.py = LANGUAGES.python;
+LANGUAGES.rs = LANGUAGES.rust;
+
+export const highlightCode = (code: string, lang: string): CodeToken[] => {
+  const spec = LANGUAGES[lang];
+  if (!spec) return [{ kind: 'plain', text: code }];
+
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    if (spec.lineComment && rest.startsWith(spec.lineComment)) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (spec.blockComment && rest.startsWith(spec.blockComment[0])) {
+      const end = code.indexOf(spec.blockComment[1], i + spec.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + spec.blockComment[1].length;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const ch = code[i];
+    if (spec.quotes.includes(ch)) {
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch) {
+        if (code[j] === '\\') j++;
+        // Only backtick strings may span lines
+        if (code[j] === '\n' && ch !== '`') break;
+        j++;
+      }
+      push('string', code.slice(i, j + 1));
+      i = j + 1;
+      continue;
+    }
+
+    const number = rest.match(/^(0x[\da-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?)/);
+    if (number && !/[\w$]/.test(code[i - 1] || '')) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      const w = word[0];
+      const lookup = lang === 'sql' ? w.toLowerCase() : w;
+      push(spec.keywords.has(lookup) ? 'keyword' : spec.literals.has(lookup) ? 'literal' : 'plain', w);
+      i += w.length;
+      continue;
+    }
+
+    push('plain', ch);
+    i++;
+  }
+
+  return tokens;
+};
@@ -0,0 +1,63 @@
+import { Note, Folder, TagRegistry } from '../types';
+
+// Keeps every open tab's in-memory state live. The tab making a change has
+// already persisted it, so messages carry the changed records and receivers
+// only update their state.
+
+export type SyncMessage =
+  | { type: 'notesChanged'; notes: Note[] }
+  | { type: 'notesRemoved'; ids: string[] }
+  | { type: 'foldersChanged'; folders: Folder[] }
+  | { type: 'foldersRemoved'; ids: string[] }
+  | { type: 'tagsChanged'; registry: TagRegistry }
+  | { type: 'cleared'; noteIds: string[]; folderIds: string[]; registry: TagRegistry }; // Ids that were cleared, registry left after
+
+const CHANNEL_NAME = 'sanchita_sync';
+// Fallback for browsers without BroadcastChannel: the storage event fires in
+// every other tab when this key is written
+const FALLBACK_KEY = 'sanchita_sync_message';
+
+export interface TabSync {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+export const createTabSync = (onMessage: (message: SyncMessage) => void): TabSync => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<SyncMessage>) => onMessage(e.data);
+    return {
+      post: message => {
+        try {
+          channel.postMessage(message);
+        } catch (e) {
+          console.error("Failed to broadcast change", e);
+        }
+      },
+      close: () => channel.close()
+    };
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== FALLBACK_KEY || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).message);
+    } catch (err) {
+      console.error("Failed to parse sync message", err);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      try {
+        // The nonce makes repeated identical messages still count as a change.
+        // Removing it right away keeps note contents from lingering at rest.
+        localStorage.setItem(FALLBACK_KEY, JSON.stringify({ message, nonce: crypto.randomUUID() }));
+        localStorage.removeItem(FALLBACK_KEY);
+      } catch (e) {
+        console.error("Failed to broadcast change", e);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
@@ -0,0 +1,67 @@
+import { Note, TagInfo, TagRegistry } from '../types';
+
+// Tag names are lowercase words; inline `#tag` text in notes uses the same characters
+export const TAG_PATTERN = /^[a-z0-9_-]+$/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches `#tag` in text, in any case, but not a longer tag it prefixes
+const inlineTagPattern = (tag: string) => new RegExp(`#${escapeRegExp(tag)}(?![a-zA-Z0-9_-])`, 'gi');
+
+// Hash of the name, so a tag keeps its color across sessions without storing it
+const hashColor = (tag: string) => {
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) {
+    hash = tag.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  const hue = Math.abs(hash % 360);
+  const saturation = 65 + (Math.abs(hash) % 25);
+  const lightness = 75 + (Math.abs(hash >> 2) % 15);
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+};
+
+export const getTagColor = (registry: TagRegistry, tag: string) => registry[tag]?.color || hashColor(tag);
+
+// Live notes per tag, in one pass
+export const countTags = (notes: Note[]) => {
+  const counts = new Map<string, number>();
+  notes.forEach(n => {
+    if (n.isDeleted) return;
+    n.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return counts;
+};
+
+// Renaming onto an existing tag merges the two
+export const renameTagInNote = (note: Note, from: string, to: string): Note => {
+  if (!note.tags.includes(from) && !inlineTagPattern(from).test(note.content)) return note;
+  return {
+    ...note,
+    tags: [...new Set(note.tags.map(tag => (tag === from ? to : tag)))],
+    content: note.content.replace(inlineTagPattern(from), `#${to}`)
+  };
+};
+
+// Inline mentions keep their word but lose the `#`, so saving the note doesn't
+// bring the tag back
+export const removeTagFromNote = (note: Note, tag: string): Note => {
+  if (!note.tags.includes(tag) && !inlineTagPattern(tag).test(note.content)) return note;
+  return {
+    ...note,
+    tags: note.tags.filter(t => t !== tag),
+    content: note.content.replace(inlineTagPattern(tag), match => match.slice(1))
+  };
+};
+
+// A merged tag keeps the target's extras, falling back to the source's
+export const renameTagInRegistry = (registry: TagRegistry, from: string, to: string): TagRegistry => {
+  const { [from]: source, ...rest } = registry;
+  if (!source) return registry;
+  const merged: TagInfo = { ...source, ...rest[to] };
+  return { ...rest, [to]: merged };
+};
+
+export const removeTagFromRegistry = (registry: TagRegistry, tag: string): TagRegistry => {
+  const { [tag]: _removed, ...rest } = registry;
+  return rest;
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { mergeText } from './textDiff';
+
+const base = 'one\ntwo\nthree\nfour\n';
+
+describe('mergeText', () => {
+  it('applies changes to separate lines from both sides', () => {
+    expect(mergeText(base, 'ONE\ntwo\nthree\nfour\n', 'one\ntwo\nthree\nFOUR\n'))
+      .toEqual({ text: 'ONE\ntwo\nthree\nFOUR\n', conflicts: 0 });
+  });
+
+  it('marks a conflict when both sides change adjacent lines', () => {
+    expect(mergeText(base, 'one\nTWO\nthree\nfour\n', 'one\ntwo\nTHREE\nfour\n')).toEqual({
+      text: 'one\n<<<<<<< mine\nTWO\nthree\n=======\ntwo\nTHREE\n>>>>>>> theirs\nfour\n',
+      conflicts: 1
+    });
+  });
+
+  it('marks a conflict when both sides change the same line differently', () => {
+    expect(mergeText(base, 'one\n2\nthree\nfour\n', 'one\nzwei\nthree\nfour\n')).toEqual({
+      text: 'one\n<<<<<<< mine\n2\n=======\nzwei\n>>>>>>> theirs\nthree\nfour\n',
+      conflicts: 1
+    });
+  });
+
+  it('takes an overlapping change once when both sides made it', () => {
+    const same = 'one\n2\n3\nfour\n';
+    expect(mergeText(base, same, same)).toEqual({ text: same, conflicts: 0 });
+  });
+
+  it('keeps an insertion next to a deletion from the other side', () => {
+    expect(mergeText(base, 'one\ntwo\nthree\nfour\nfive\n', 'two\nthree\nfour\n'))
+      .toEqual({ text: 'two\nthree\nfour\nfive\n', conflicts: 0 });
+  });
+
+  it('leaves off the trailing newline when neither side has one', () => {
+    expect(mergeText('a\nb\nc', 'A\nb\nc', 'a\nb\nC')).toEqual({ text: 'A\nb\nC', conflicts: 0 });
+  });
+});
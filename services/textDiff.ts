@@ -0,0 +1,178 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many LCS cells the diff degrades to "replace everything" to stay responsive
+const MAX_DIFF_CELLS = 4_000_000;
+
+// LCS-based diff over token sequences, after trimming the common prefix and suffix
+const diffTokens = (a: string[], b: string[]): { op: DiffOp; token: string }[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const head = a.slice(0, prefix).map(token => ({ op: 'equal' as DiffOp, token }));
+  const tail = a.slice(a.length - suffix).map(token => ({ op: 'equal' as DiffOp, token }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const n = midA.length;
+  const m = midB.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map(token => ({ op: 'delete' as DiffOp, token })),
+      ...midB.map(token => ({ op: 'insert' as DiffOp, token })),
+      ...tail
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: { op: DiffOp; token: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      middle.push({ op: 'equal', token: midA[i] });
+      i++; j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ op: 'delete', token: midA[i++] });
+    } else {
+      middle.push({ op: 'insert', token: midB[j++] });
+    }
+  }
+  while (i < n) middle.push({ op: 'delete', token: midA[i++] });
+  while (j < m) middle.push({ op: 'insert', token: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+};
+
+// Merges adjacent tokens with the same op into parts
+const toParts = (tokens: { op: DiffOp; token: string }[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  tokens.forEach(({ op, token }) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) last.text += token;
+    else parts.push({ op, text: token });
+  });
+  return parts;
+};
+
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+// Words and the whitespace between them are separate tokens so spacing survives
+const splitWords = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+export const diffLines = (before: string, after: string): DiffPart[] =>
+  toParts(diffTokens(splitLines(before), splitLines(after)));
+
+export const diffWords = (before: string, after: string): DiffPart[] =>
+  toParts(diffTokens(splitWords(before), splitWords(after)));
+
+export const diffStats = (parts: DiffPart[]) => ({
+  added: parts.filter(p => p.op === 'insert').reduce((sum, p) => sum + p.text.length, 0),
+  removed: parts.filter(p => p.op === 'delete').reduce((sum, p) => sum + p.text.length, 0)
+});
+
+interface Hunk {
+  side: 'mine' | 'theirs';
+  start: number; // Replaced base lines [start, end)
+  end: number;
+  lines: string[];
+}
+
+const hunksFrom = (base: string[], other: string[], side: Hunk['side']): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+  diffTokens(base, other).forEach(({ op, token }) => {
+    if (op === 'equal') {
+      current = null;
+      index++;
+      return;
+    }
+    if (!current) {
+      current = { side, start: index, end: index, lines: [] };
+      hunks.push(current);
+    }
+    if (op === 'delete') current.end = ++index;
+    else current.lines.push(token);
+  });
+  return hunks;
+};
+
+// Line-based three-way merge. Changes from both sides are applied; where they
+// touch the same lines differently, both versions are kept between conflict
+// markers for the user to resolve.
+export const mergeText = (base: string, mine: string, theirs: string): { text: string; conflicts: number } => {
+  const baseLines = splitLines(base.endsWith('\n') || !base ? base : base + '\n');
+  const withNewline = (text: string) => (text.endsWith('\n') || !text ? text : text + '\n');
+  const hunks = [
+    ...hunksFrom(baseLines, splitLines(withNewline(mine)), 'mine'),
+    ...hunksFrom(baseLines, splitLines(withNewline(theirs)), 'theirs')
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  // One side's version of base lines [start, end), given its hunks in that range
+  const sideText = (group: Hunk[], side: Hunk['side'], start: number, end: number) => {
+    let out = '';
+    let position = start;
+    group.filter(h => h.side === side).forEach(h => {
+      out += baseLines.slice(position, h.start).join('') + h.lines.join('');
+      position = h.end;
+    });
+    return out + baseLines.slice(position, end).join('');
+  };
+
+  let text = '';
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    // Overlapping or adjacent hunks form one group
+    const group = [hunks[i]];
+    let start = hunks[i].start;
+    let end = hunks[i].end;
+    i++;
+    while (i < hunks.length && hunks[i].start <= end) {
+      end = Math.max(end, hunks[i].end);
+      group.push(hunks[i++]);
+    }
+
+    text += baseLines.slice(position, start).join('');
+    const sides = new Set(group.map(h => h.side));
+    if (sides.size === 1) {
+      text += sideText(group, group[0].side, start, end);
+    } else {
+      const ours = sideText(group, 'mine', start, end);
+      const other = sideText(group, 'theirs', start, end);
+      if (ours === other) {
+        text += ours;
+      } else {
+        conflicts++;
+        text += `<<<<<<< mine\n${ours}=======\n${other}>>>>>>> theirs\n`;
+      }
+    }
+    position = end;
+  }
+  text += baseLines.slice(position).join('');
+
+  // Drop the newline added for alignment when neither side ends with one
+  if (!mine.endsWith('\n') && !theirs.endsWith('\n') && text.endsWith('\n')) text = text.slice(0, -1);
+  return { text, conflicts };
+};
@@ -0,0 +1,22 @@
+import { Note } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Notes trashed before deletion times were recorded are stamped when first
+// seen, so they get the full period rather than being purged on upgrade
+export const needsDeletionTime = (note: Note) => !!note.isDeleted && !note.deletedAt;
+
+export const getPurgeTime = (note: Note, retentionDays: number): number | null =>
+  note.isDeleted && note.deletedAt && retentionDays > 0 ? note.deletedAt + retentionDays * DAY_MS : null;
+
+export const getExpiredNotes = (notes: Note[], retentionDays: number, now = Date.now()) =>
+  notes.filter(n => {
+    const purgeAt = getPurgeTime(n, retentionDays);
+    return purgeAt !== null && purgeAt <= now;
+  });
+
+// Whole days left, rounded up so a note never shows "0 days" while it's still there
+export const getDaysUntilPurge = (note: Note, retentionDays: number, now = Date.now()): number | null => {
+  const purgeAt = getPurgeTime(note, retentionDays);
+  return purgeAt === null ? null : Math.max(1, Math.ceil((purgeAt - now) / DAY_MS));
+};
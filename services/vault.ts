@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import * as repo from './noteRepository';
+import { SealedPayload, deriveKey, randomSalt, encryptJson, decryptJson, encryptBytes, decryptBytes, PBKDF2_ITERATIONS } from './cryptoService';
+
+// Optional passphrase lock. When set, everything in IndexedDB is sealed with a
+// key derived from the passphrase, and the key only lives in memory while the
+// app is unlocked. The config below holds no secrets, so it stays in
+// localStorage where it can be read before anything renders.
+
+const VAULT_KEY = 'sanchita_vault';
+const CHECK_VALUE = 'sanchita-vault';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60]; // Minutes, 0 never locks
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+export interface VaultConfig {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: SealedPayload; // CHECK_VALUE sealed with the key, verifies a passphrase
+  autoLockMinutes: number;
+}
+
+export const getVaultConfig = (): VaultConfig | null => {
+  const saved = localStorage.getItem(VAULT_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse vault config", e);
+    return null;
+  }
+};
+
+export const isVaultEnabled = () => getVaultConfig() !== null;
+
+// Set while a tab re-encrypts storage. Other tabs stay locked until it is
+// removed, so none of them writes under the old key meanwhile. A tab that died
+// half-way leaves it behind, so an old one is ignored on startup.
+const REENCRYPTING_KEY = 'sanchita_vault_reencrypting';
+const REENCRYPTING_STALE_MS = 10 * 60_000;
+
+let vaultKey: CryptoKey | null = null;
+let reencryptingElsewhere = Date.now() - Number(localStorage.getItem(REENCRYPTING_KEY) ?? 0) < REENCRYPTING_STALE_MS;
+const listeners = new Set<() => void>();
+const beforeLockListeners = new Set<() => void>();
+
+export const isReencryptingElsewhere = () => reencryptingElsewhere;
+
+export const isLocked = () => reencryptingElsewhere || (isVaultEnabled() && !vaultKey);
+
+const setVaultKey = (key: CryptoKey | null) => {
+  vaultKey = key;
+  repo.setEncryptionKey(key ?? (isVaultEnabled() || reencryptingElsewhere ? undefined : null));
+  listeners.forEach(listener => listener());
+};
+
+// Storage stays locked until a passphrase is entered
+repo.setEncryptionKey(isVaultEnabled() || reencryptingElsewhere ? undefined : null);
+
+// Runs right before the key is dropped, while writes can still be sealed
+export const onBeforeLock = (listener: () => void) => {
+  beforeLockListeners.add(listener);
+  return () => { beforeLockListeners.delete(listener); };
+};
+
+const lockNow = () => {
+  beforeLockListeners.forEach(listener => listener());
+  setVaultKey(null);
+};
+
+export const subscribeVault = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Current config, re-rendering when the passphrase or auto-lock changes
+export const useVaultConfig = () => {
+  const [config, setConfig] = useState(getVaultConfig);
+  useEffect(() => subscribeVault(() => setConfig(getVaultConfig())), []);
+  return config;
+};
+
+const saveConfig = (config: VaultConfig) => localStorage.setItem(VAULT_KEY, JSON.stringify(config));
+
+const checkPassphrase = async (passphrase: string, config: VaultConfig): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    return (await decryptJson<string>(key, config.check)) === CHECK_VALUE ? key : null;
+  } catch (e) {
+    return null; // Wrong passphrase
+  }
+};
+
+const createConfig = async (passphrase: string, autoLockMinutes: number) => {
+  const salt = randomSalt();
+  const key = await deriveKey(passphrase, salt);
+  const config: VaultConfig = {
+    version: 1,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptJson(key, CHECK_VALUE),
+    autoLockMinutes
+  };
+  return { config, key };
+};
+
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const config = getVaultConfig();
+  if (!config) return true;
+  const key = await checkPassphrase(passphrase, config);
+  if (key) setVaultKey(key);
+  return !!key;
+};
+
+export const lockVault = () => {
+  if (isVaultEnabled()) lockNow();
+};
+
+// Locking unmounts the app, so an unsaved draft holds off auto-lock until it
+// is saved or dropped. Returns the release.
+const autoLockHolds = new Set<symbol>();
+
+export const holdAutoLock = () => {
+  const hold = Symbol('autoLockHold');
+  autoLockHolds.add(hold);
+  return () => { autoLockHolds.delete(hold); };
+};
+
+export const isAutoLockHeld = () => autoLockHolds.size > 0;
+
+// Rewrites storage under `key`, then saves the config that goes with it, with
+// other tabs locked throughout
+const reencrypt = async (key: CryptoKey | null, saveKeyConfig: () => void) => {
+  localStorage.setItem(REENCRYPTING_KEY, String(Date.now()));
+  try {
+    await repo.reencryptAll(key);
+    saveKeyConfig();
+  } finally {
+    localStorage.removeItem(REENCRYPTING_KEY);
+  }
+};
+
+// Encrypts everything stored so far
+export const enableVault = async (passphrase: string) => {
+  const { config, key } = await createConfig(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+  await reencrypt(key, () => saveConfig(config));
+  setVaultKey(key);
+};
+
+// Re-encrypts everything under a key from the new passphrase and a fresh salt
+export const changePassphrase = async (current: string, next: string): Promise<boolean> => {
+  const config = getVaultConfig();
+  if (!config || !(await checkPassphrase(current, config))) return false;
+  const created = await createConfig(next, config.autoLockMinutes);
+  await reencrypt(created.key, () => saveConfig(created.config));
+  setVaultKey(created.key);
+  return true;
+};
+
+// Decrypts everything and forgets the passphrase
+export const disableVault = async (current: string): Promise<boolean> => {
+  const config = getVaultConfig();
+  if (!config || !(await checkPassphrase(current, config))) return false;
+  await reencrypt(null, () => localStorage.removeItem(VAULT_KEY));
+  setVaultKey(null);
+  return true;
+};
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const config = getVaultConfig();
+  if (!config) return;
+  saveConfig({ ...config, autoLockMinutes: minutes });
+  listeners.forEach(listener => listener());
+};
+
+// Tabs hold their own copy of the key, so a tab that sees the passphrase
+// change in another tab must lock rather than keep writing under a stale key
+export const watchVaultChanges = () => {
+  let salt = getVaultConfig()?.salt ?? null;
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === REENCRYPTING_KEY) {
+      // Locks for the duration; afterwards the passphrase is asked for again
+      // unless encryption was turned off
+      reencryptingElsewhere = e.newValue !== null;
+      if (reencryptingElsewhere) lockNow();
+      else setVaultKey(null);
+      return;
+    }
+    if (e.key !== VAULT_KEY) return;
+    const next = getVaultConfig()?.salt ?? null;
+    if (next !== salt) {
+      salt = next;
+      setVaultKey(null);
+    } else {
+      listeners.forEach(listener => listener());
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
+
+// --- Encrypted exports ---
+
+// Sealed with the vault key and tagged with its salt, so the passphrase alone
+// decrypts the file later, even after it has been changed here
+const EXPORT_FORMAT = 'sanchita-encrypted';
+export const ENCRYPTED_EXTENSION = '.enc';
+
+interface EncryptedExport {
+  format: typeof EXPORT_FORMAT;
+  version: 1;
+  name: string; // File name before encryption
+  salt: string;
+  iterations: number;
+  payload: SealedPayload;
+}
+
+export const canEncryptExports = () => !!vaultKey && isVaultEnabled();
+
+export const encryptExport = async (data: string | Uint8Array, name: string): Promise<string> => {
+  const config = getVaultConfig();
+  if (!vaultKey || !config) throw new Error('Set a passphrase to encrypt exports');
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const file: EncryptedExport = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    name,
+    salt: config.salt,
+    iterations: config.iterations,
+    payload: await encryptBytes(vaultKey, bytes)
+  };
+  return JSON.stringify(file);
+};
+
+// Files from the current passphrase open with the unlocked key; others need
+// their passphrase. Null means no passphrase was given or it was wrong.
+export const decryptExport = async (text: string, passphrase?: string | null): Promise<{ name: string; data: Uint8Array } | null> => {
+  const file: EncryptedExport = JSON.parse(text);
+  if (file.format !== EXPORT_FORMAT) throw new Error('Not an encrypted Sanchita export');
+  const config = getVaultConfig();
+  const key = vaultKey && config?.salt === file.salt
+    ? vaultKey
+    : passphrase ? await deriveKey(passphrase, file.salt, file.iterations) : null;
+  if (!key) return null;
+  try {
+    return { name: file.name, data: await decryptBytes(key, file.payload) };
+  } catch (e) {
+    return null;
+  }
+};
@@ -0,0 +1,45 @@
+import { Note } from '../types';
+
+// [[Note Title]] or [[Note Title|shown text]]
+const WIKI_LINK = /\[\[([^\]|\n]+)(\|[^\]\n]*)?\]\]/g;
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+export const extractWikiLinks = (content: string): string[] =>
+  Array.from(content.matchAll(WIKI_LINK), m => m[1].trim());
+
+export const findNoteByTitle = (notes: Note[], title: string): Note | undefined => {
+  const wanted = normalizeTitle(title);
+  return wanted ? notes.find(n => !n.isDeleted && normalizeTitle(n.title) === wanted) : undefined;
+};
+
+// Live notes that link to the given title
+export const findBacklinks = (notes: Note[], target: Note): Note[] => {
+  const wanted = normalizeTitle(target.title);
+  if (!wanted) return [];
+  return notes.filter(n =>
+    n.id !== target.id &&
+    !n.isDeleted &&
+    n.content.includes('[[') &&
+    extractWikiLinks(n.content).some(t => normalizeTitle(t) === wanted)
+  );
+};
+
+// Points links at a renamed note, keeping any custom link text
+export const renameWikiLinks = (content: string, oldTitle: string, newTitle: string): string => {
+  if (!content.includes('[[')) return content;
+  const from = normalizeTitle(oldTitle);
+  return content.replace(WIKI_LINK, (match, title: string, label: string | undefined) =>
+    normalizeTitle(title) === from ? `[[${newTitle.trim()}${label || ''}]]` : match
+  );
+};
+
+// The partial title being typed when the caret sits inside an unclosed "[["
+export const getWikiLinkQuery = (content: string, caret: number): { start: number; query: string } | null => {
+  const before = content.slice(0, caret);
+  const open = before.lastIndexOf('[[');
+  if (open === -1) return null;
+  const query = before.slice(open + 2);
+  if (/[\]\n|]/.test(query)) return null;
+  return { start: open + 2, query };
+};
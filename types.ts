@@ -6,9 +6,25 @@ export interface Note {
   folderIds: string[];
   tags: string[];
   summary?: string;
+  suggestedTags?: string[]; // AI suggestions awaiting accept/reject
   createdAt: number;
   updatedAt: number;
   isDeleted?: boolean; // Soft delete flag
+  deletedAt?: number; // When the note was moved to trash
+  isPinned?: boolean; // Listed above the other notes
+  isArchived?: boolean; // Only shown in the Archive view
+  manualRank?: number; // Position in manual sort order, lowest first
+}
+
+// Snapshot of a note taken on save, used for history and restore
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  createdAt: number;
+  title: string;
+  content: string;
+  tags: string[];
+  folderIds: string[];
 }
 
 export interface Folder {
@@ -16,9 +32,36 @@ export interface Folder {
   name: string;
   icon?: string;
   isSystem?: boolean;
+  query?: string; // Smart folders hold a saved search instead of membership
+  parentId?: string; // Nesting; folders whose parent is gone show at the top level
+  color?: string; // Tint of the folder icon, one of COLOR_OPTIONS
+  keepWhenEmpty?: boolean; // Exempt from the cleanup of folders without notes
+}
+
+// Swatches offered for folders and tags
+export const COLOR_OPTIONS = ['#fbbf24', '#f87171', '#fb923c', '#a3e635', '#34d399', '#22d3ee', '#60a5fa', '#a78bfa', '#f472b6', '#94a3b8'];
+
+// Optional extras for a tag; tags themselves only exist in `Note.tags`
+export interface TagInfo {
+  color?: string; // Replaces the color derived from the tag name
+  description?: string;
 }
 
-export type ViewState = 'home' | 'folders' | 'tags' | 'settings' | 'editor' | 'trash';
+export type TagRegistry = Record<string, TagInfo>; // Keyed by tag name
+
+export type ViewState = 'home' | 'folders' | 'tags' | 'settings' | 'editor' | 'trash' | 'tasks' | 'archive';
+
+export type SortOrder = 'updated' | 'created' | 'title' | 'manual';
+
+// Views with their own remembered sort order
+export type SortableView = 'home' | 'folders' | 'tags' | 'archive';
+
+export const SORT_OPTIONS: { value: SortOrder; label: string }[] = [
+  { value: 'updated', label: 'Last updated' },
+  { value: 'created', label: 'Date created' },
+  { value: 'title', label: 'Title A–Z' },
+  { value: 'manual', label: 'Manual (drag to reorder)' }
+];
 
 export type Theme = 'light' | 'dark' | 'black' | 'system';
 
@@ -29,4 +72,48 @@ export interface AppState {
   activeTag: string | null;
 }
 
+// One change as exchanged with the sync server; `data: null` is a purge tombstone
+export interface SyncRecord<T> {
+  id: string;
+  updatedAt: number;
+  data: T | null;
+}
+
+// Unsent local change, coalesced per record (`key` is "note:<id>" or "folder:<id>")
+export interface SyncQueueItem {
+  key: string;
+  kind: 'note' | 'folder';
+  record: SyncRecord<Note | Folder>;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'heuristic';
+
+export interface AppSettings {
+  autoAnalyze: boolean; // Run AI analysis in the background after each save
+  aiProvider: AIProviderId;
+  openAIBaseUrl: string;
+  openAIModel: string;
+  openAIApiKey: string;
+  syncEnabled: boolean;
+  syncServerUrl: string;
+  syncToken: string; // Doubles as the account on the sync server
+  trashRetentionDays: number; // Trashed notes are purged after this long, 0 keeps them
+  sortOrders: Partial<Record<SortableView, SortOrder>>; // Missing views sort by last updated
+}
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autoAnalyze: false,
+  aiProvider: 'gemini',
+  openAIBaseUrl: 'http://localhost:11434/v1',
+  openAIModel: 'llama3.2',
+  openAIApiKey: '',
+  syncEnabled: false,
+  syncServerUrl: 'http://localhost:8787',
+  syncToken: '',
+  trashRetentionDays: 30,
+  sortOrders: {}
+};
+
 export const DEFAULT_FOLDERS: Folder[] = [];